@@ -6,23 +6,42 @@
 // Export all types
 export * from './types';
 
+// Error class exports
+export {
+  TimeoutError,
+  ChannelClosedError,
+  RetryError,
+} from './primitives/errors';
+
 // delay function export.
 export { delay } from './primitives/delay';
 
 // defer function export.
 export { defer } from './primitives/defer';
 
+// Clock exports
+export { getClock, setClock, createVirtualClock } from './primitives/clock';
+
+// retry function export.
+export { retry } from './primitives/retry';
+
 // Abort hooking function export.
 export { onAbort } from './primitives/abort-hook';
 
 // Mutex exports - only the create function, not the interface
 export { createMutex } from './primitives/mutex';
 
+// Reentrant mutex exports - only the create function, not the interface
+export { createReentrantMutex } from './primitives/reentrant-mutex';
+
 // Deferred exports - only the create function, not the interface
 export { createDeferred } from './primitives/deferred';
 
 // Deferred generator exports - only the create function, not the interface
-export { createDeferredGenerator } from './primitives/deferred-generator';
+export {
+  createDeferredGenerator,
+  createBroadcastDeferredGenerator,
+} from './primitives/deferred-generator';
 
 // Conditional exports
 export {
@@ -30,6 +49,18 @@ export {
   createManuallyConditional,
 } from './primitives/conditional';
 
+// Condition variable exports - only the create function, not the interface
+export { createConditionVariable } from './primitives/condition-variable';
+
+// Countdown latch exports - only the create function, not the interface
+export { createCountdownLatch } from './primitives/countdown-latch';
+
+// Barrier exports - only the create function, not the interface
+export { createBarrier } from './primitives/barrier';
+
+// Channel exports - only the create function and select, not the interface
+export { createChannel, select } from './primitives/channel';
+
 // Logical context exports
 export {
   setLogicalContextValue,
@@ -44,13 +75,25 @@ export { createAsyncLocal } from './primitives/async-local';
 // Semaphore exports - only the create function, not the interface
 export { createSemaphore } from './primitives/semaphore';
 
+// RateLimiter exports - only the create function, not the interface
+export { createRateLimiter } from './primitives/rate-limiter';
+
 // ReaderWriterLock exports - only the create function, not the interface
 export { createReaderWriterLock } from './primitives/reader-writer-lock';
 
 /////////////////////////////////////////////////////////////
 
 // Async operator export.
-export { from } from './primitives/async-operator';
+export {
+  from,
+  range,
+  repeat,
+  generate,
+  interval,
+  deferFrom,
+  empty,
+  throwError,
+} from './primitives/async-operator';
 
 /////////////////////////////////////////////////////////////
 
@@ -3,7 +3,28 @@
 // Under MIT.
 // https://github.com/kekyo/async-primitives
 
-import { AsyncOperator, AsyncOperatorSource, Awaitable } from '../types';
+import {
+  AsyncOperator,
+  AsyncOperatorForEachConcurrentOptions,
+  AsyncOperatorLookup,
+  AsyncOperatorMapConcurrentOptions,
+  AsyncOperatorMergeOptions,
+  AsyncOperatorSource,
+  AsyncOperatorStats,
+  AsyncOperatorStatsOptions,
+  AsyncOperatorStreamBufferOptions,
+  AsyncOperatorThrottleOptions,
+  AsyncOperatorToMapOptions,
+  Awaitable,
+  OrderedAsyncOperator,
+  RetryOptions,
+} from '../types';
+import { onAbort } from './abort-hook';
+import { getClock } from './clock';
+import { delay } from './delay';
+import { TimeoutError } from './errors';
+import { createQuantileEstimator } from './internal/quantile-estimator';
+import { iterateWithRetry } from './retry';
 
 type SyncIterableFactory<T> = () => Iterable<Awaitable<T>>;
 type AsyncIterableFactory<T> = () => AsyncIterable<T>;
@@ -54,6 +75,11 @@ const __NO_INITIAL_VALUE = Symbol('no-initial-value');
 const __LINEAR_SKIP = Symbol('linear-skip');
 const __LINEAR_STOP = Symbol('linear-stop');
 
+const __TIMED_OUT = Symbol('timed-out');
+
+const ABORTED_ERROR = () => new Error('Async operator aborted');
+const TIMEOUT_ERROR = () => new TimeoutError('Async operator timed out');
+
 const createAsyncIterable = <T>(
   iteratorFactory: () => AsyncGenerator<T, void, unknown>
 ): AsyncIterable<T> => ({
@@ -152,6 +178,13 @@ const normalizeRequiredCount = (count: number, name: string): number => {
   return Math.trunc(count);
 };
 
+const normalizeDuration = (msec: number, name: string): number => {
+  if (!Number.isFinite(msec) || msec < 0) {
+    throw new RangeError(`${name} must be 0 or greater`);
+  }
+  return msec;
+};
+
 const isNonNullish = <T>(
   value: T | null | undefined
 ): value is NonNullable<T> => value !== null && value !== undefined;
@@ -334,6 +367,110 @@ const collectValuesFromSource = async <T>(
   return values;
 };
 
+const collectLookup = async <T, TKey>(
+  iteratorFactories: IteratorFactories<T>,
+  selector: (value: T, index: number) => Awaitable<TKey>
+): Promise<Map<TKey, T[]>> => {
+  const { syncFactory, asyncFactory } = iteratorFactories;
+  let index = 0;
+  const lookup = new Map<TKey, T[]>();
+
+  const add = (key: TKey, value: T) => {
+    const values = lookup.get(key);
+    if (values === undefined) {
+      lookup.set(key, [value]);
+    } else {
+      values.push(value);
+    }
+  };
+
+  if (syncFactory !== undefined) {
+    for (const value of syncFactory()) {
+      const resolvedValue = (isPromiseLike(value) ? await value : value) as T;
+      const key = selector(resolvedValue, index);
+      add(isPromiseLike(key) ? await key : key, resolvedValue);
+      index++;
+    }
+  } else {
+    for await (const value of asyncFactory()) {
+      const key = selector(value, index);
+      add(isPromiseLike(key) ? await key : key, value);
+      index++;
+    }
+  }
+
+  return lookup;
+};
+
+/**
+ * Wraps the grouped values into a read-only lookup
+ * @param groupedValues Values grouped by key
+ * @returns A lookup returning an empty array for missing keys
+ */
+const createLookup = <TKey, T>(
+  groupedValues: Map<TKey, T[]>
+): AsyncOperatorLookup<TKey, T> => {
+  const lookup: AsyncOperatorLookup<TKey, T> = {
+    get size() {
+      return groupedValues.size;
+    },
+    get: (key) => groupedValues.get(key) ?? [],
+    has: (key) => groupedValues.has(key),
+    forEach: (callbackfn, thisArg) =>
+      groupedValues.forEach((values, key) =>
+        callbackfn.call(thisArg, values, key, lookup)
+      ),
+    entries: () => groupedValues.entries(),
+    keys: () => groupedValues.keys(),
+    values: () => groupedValues.values(),
+    [Symbol.iterator]: () => groupedValues[Symbol.iterator](),
+  };
+  return lookup;
+};
+
+/**
+ * Iterates the outer values paired with the matching inner values in the lookup
+ * @param iteratorFactories Factories of the outer sequence
+ * @param lookup Inner values grouped by key
+ * @param outerKeySelector Selector function that produces the key of the outer value
+ * @param matchedKeys Optional set receiving the keys matched by any outer value
+ */
+const iterateJoinMatches = async function* <T, TInner, TKey>(
+  iteratorFactories: IteratorFactories<T>,
+  lookup: ReadonlyMap<TKey, readonly TInner[]>,
+  outerKeySelector: (value: T, index: number) => Awaitable<TKey>,
+  matchedKeys?: Set<TKey>
+): AsyncGenerator<readonly [T, readonly TInner[]]> {
+  const { syncFactory, asyncFactory } = iteratorFactories;
+  let index = 0;
+
+  const match = (key: TKey): readonly TInner[] => {
+    const inners = lookup.get(key);
+    if (inners === undefined) {
+      return [];
+    }
+    matchedKeys?.add(key);
+    return inners;
+  };
+
+  if (syncFactory !== undefined) {
+    for (const value of syncFactory()) {
+      const resolvedValue = (isPromiseLike(value) ? await value : value) as T;
+      const selectedKey = outerKeySelector(resolvedValue, index);
+      const key = isPromiseLike(selectedKey) ? await selectedKey : selectedKey;
+      yield [resolvedValue, match(key)] as const;
+      index++;
+    }
+  } else {
+    for await (const value of asyncFactory()) {
+      const selectedKey = outerKeySelector(value, index);
+      const key = isPromiseLike(selectedKey) ? await selectedKey : selectedKey;
+      yield [value, match(key)] as const;
+      index++;
+    }
+  }
+};
+
 const materializeValues = async <T>(
   iteratorFactories: IteratorFactories<T>
 ): Promise<T[]> => {
@@ -353,6 +490,37 @@ const materializeValues = async <T>(
   return values;
 };
 
+const forEachNumber = async <T>(
+  iteratorFactories: IteratorFactories<T>,
+  selector: (value: T, index: number) => Awaitable<number>,
+  action: (value: number) => void
+): Promise<void> => {
+  const { syncFactory, asyncFactory } = iteratorFactories;
+  let index = 0;
+
+  const accept = (selected: number) => {
+    if (typeof selected !== 'number') {
+      throw new TypeError('Async operator value is not a number');
+    }
+    action(selected);
+  };
+
+  if (syncFactory !== undefined) {
+    for (const value of syncFactory()) {
+      const resolvedValue = (isPromiseLike(value) ? await value : value) as T;
+      const selected = selector(resolvedValue, index);
+      accept(isPromiseLike(selected) ? await selected : selected);
+      index++;
+    }
+  } else {
+    for await (const value of asyncFactory()) {
+      const selected = selector(value, index);
+      accept(isPromiseLike(selected) ? await selected : selected);
+      index++;
+    }
+  }
+};
+
 const findExtremeBy = async <T, TKey>(
   iteratorFactories: IteratorFactories<T>,
   selector: (value: T, index: number) => Awaitable<TKey>,
@@ -397,11 +565,1028 @@ const findExtremeBy = async <T, TKey>(
         bestValue = value;
         bestKey = key;
       }
-      index++;
-    }
-  }
+      index++;
+    }
+  }
+
+  return bestValue;
+};
+
+const createConcurrentIterable = <T, U>(
+  iterableFactory: AsyncIterableFactory<T>,
+  selector: (value: T, index: number, signal: AbortSignal) => Awaitable<U>,
+  concurrency: number,
+  ordered: boolean
+): AsyncIterable<U> =>
+  createAsyncIterable(async function* () {
+    const normalizedConcurrency = normalizeRequiredCount(
+      concurrency,
+      'Concurrency'
+    );
+    const controller = new AbortController();
+    const iterator = iterableFactory()[Symbol.asyncIterator]();
+    // Completed results keyed by source index (ordered) or in completion order (unordered)
+    const orderedResults = new Map<number, U>();
+    const unorderedResults: U[] = [];
+    let sourceDone = false;
+    let runningCount = 0;
+    let nextIndex = 0;
+    let nextEmitIndex = 0;
+    let failure: { readonly error: unknown } | undefined;
+    // The source next() in flight and its settled outcome not taken yet
+    let pending: Promise<IteratorResult<T>> | undefined;
+    let sourceOutcome:
+      | { readonly result: IteratorResult<T> }
+      | { readonly error: unknown }
+      | undefined;
+    let notify: (() => void) | undefined;
+
+    const wakeUp = () => {
+      const resolve = notify;
+      notify = undefined;
+      resolve?.();
+    };
+
+    const throwIfFailed = () => {
+      if (failure !== undefined) {
+        throw failure.error;
+      }
+    };
+
+    const requestSource = () => {
+      // Observe the next() only once, and wake up when it settles
+      const next = iterator.next();
+      pending = next;
+      next.then(
+        (result) => {
+          sourceOutcome = { result };
+          wakeUp();
+        },
+        (error: unknown) => {
+          sourceOutcome = { error };
+          wakeUp();
+        }
+      );
+    };
+
+    const startTask = (value: T, index: number) => {
+      runningCount++;
+      Promise.resolve()
+        .then(() => selector(value, index, controller.signal))
+        .then(
+          (result) => {
+            runningCount--;
+            if (ordered) {
+              orderedResults.set(index, result);
+            } else {
+              unorderedResults.push(result);
+            }
+            wakeUp();
+          },
+          (error: unknown) => {
+            runningCount--;
+            if (failure === undefined) {
+              failure = { error };
+              // Cancel the other in-flight selectors
+              controller.abort();
+            }
+            wakeUp();
+          }
+        );
+    };
+
+    try {
+      while (true) {
+        throwIfFailed();
+
+        if (sourceOutcome !== undefined) {
+          const outcome = sourceOutcome;
+          sourceOutcome = undefined;
+          pending = undefined;
+          if ('error' in outcome) {
+            sourceDone = true;
+            throw outcome.error;
+          }
+          if (outcome.result.done) {
+            sourceDone = true;
+          } else {
+            startTask(outcome.result.value, nextIndex++);
+          }
+          continue;
+        }
+
+        // Bound both in-flight and buffered results by the concurrency,
+        // without blocking on the source so that results and failures are not delayed
+        if (
+          !sourceDone &&
+          pending === undefined &&
+          runningCount + orderedResults.size + unorderedResults.length <
+            normalizedConcurrency
+        ) {
+          requestSource();
+        }
+
+        if (ordered) {
+          if (orderedResults.has(nextEmitIndex)) {
+            const value = orderedResults.get(nextEmitIndex) as U;
+            orderedResults.delete(nextEmitIndex);
+            nextEmitIndex++;
+            yield value;
+            continue;
+          }
+        } else if (unorderedResults.length >= 1) {
+          yield unorderedResults.shift() as U;
+          continue;
+        }
+
+        if (sourceDone && runningCount === 0) {
+          return;
+        }
+
+        await new Promise<void>((resolve) => {
+          notify = resolve;
+        });
+      }
+    } finally {
+      // Stop the source and cancel in-flight selectors on early termination or failure
+      if (!sourceDone) {
+        sourceDone = true;
+        await returnIterator(iterator, pending);
+      }
+      controller.abort();
+    }
+  });
+
+const raceWithAbort = <T>(
+  promise: Promise<T>,
+  signal: AbortSignal
+): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const abortHandle = onAbort(signal, () => reject(ABORTED_ERROR()));
+    promise.then(
+      (value) => {
+        abortHandle.release();
+        resolve(value);
+      },
+      (error: unknown) => {
+        abortHandle.release();
+        reject(error);
+      }
+    );
+  });
+
+const returnIterator = async <T>(
+  iterator: AsyncIterator<T>,
+  pending: Promise<IteratorResult<T>> | undefined
+): Promise<void> => {
+  if (pending !== undefined) {
+    // The source is still running, request to stop without waiting for it
+    pending.catch(() => {});
+    iterator.return?.()?.catch(() => {});
+  } else {
+    await iterator.return?.();
+  }
+};
+
+const raceWithDelay = async <T>(
+  promise: Promise<T>,
+  msec: number
+): Promise<T | typeof __TIMED_OUT> => {
+  const controller = new AbortController();
+  try {
+    return await Promise.race<T | typeof __TIMED_OUT>([
+      promise,
+      delay(msec, controller.signal).then(
+        () => __TIMED_OUT,
+        () => __TIMED_OUT
+      ),
+    ]);
+  } finally {
+    // Release the timer when the promise wins
+    controller.abort();
+  }
+};
+
+const createDebounceIterable = <T>(
+  iterableFactory: AsyncIterableFactory<T>,
+  msec: number
+): AsyncIterable<T> =>
+  createAsyncIterable(async function* () {
+    const normalizedMsec = normalizeDuration(msec, 'Debounce time');
+    const iterator = iterableFactory()[Symbol.asyncIterator]();
+    let pending: Promise<IteratorResult<T>> | undefined;
+    let sourceDone = false;
+    let hasLatestValue = false;
+    let latestValue: T | undefined;
+
+    try {
+      while (true) {
+        pending ??= iterator.next();
+        const result = hasLatestValue
+          ? await raceWithDelay(pending, normalizedMsec)
+          : await pending;
+        if (result === __TIMED_OUT) {
+          // Quiet for the duration, emit the latest value
+          hasLatestValue = false;
+          yield latestValue as T;
+          continue;
+        }
+
+        pending = undefined;
+        if (result.done) {
+          sourceDone = true;
+          if (hasLatestValue) {
+            yield latestValue as T;
+          }
+          return;
+        }
+        latestValue = result.value;
+        hasLatestValue = true;
+      }
+    } finally {
+      if (!sourceDone) {
+        await returnIterator(iterator, pending);
+      }
+    }
+  });
+
+const createThrottleIterable = <T>(
+  iterableFactory: AsyncIterableFactory<T>,
+  msec: number,
+  leading: boolean,
+  trailing: boolean
+): AsyncIterable<T> =>
+  createAsyncIterable(async function* () {
+    const normalizedMsec = normalizeDuration(msec, 'Throttle time');
+    const iterator = iterableFactory()[Symbol.asyncIterator]();
+    let pending: Promise<IteratorResult<T>> | undefined;
+    let sourceDone = false;
+    let windowEnd: number | undefined;
+    let hasTrailingValue = false;
+    let trailingValue: T | undefined;
+
+    try {
+      while (true) {
+        pending ??= iterator.next();
+
+        if (windowEnd === undefined) {
+          const result = await pending;
+          pending = undefined;
+          if (result.done) {
+            sourceDone = true;
+            return;
+          }
+
+          // Open a new throttling window
+          windowEnd = getClock().now() + normalizedMsec;
+          if (leading) {
+            yield result.value;
+          } else if (trailing) {
+            trailingValue = result.value;
+            hasTrailingValue = true;
+          }
+          continue;
+        }
+
+        const remaining = windowEnd - getClock().now();
+        const result =
+          remaining > 0 ? await raceWithDelay(pending, remaining) : __TIMED_OUT;
+        if (result === __TIMED_OUT) {
+          if (hasTrailingValue) {
+            // The trailing emission opens the next window
+            hasTrailingValue = false;
+            windowEnd = getClock().now() + normalizedMsec;
+            yield trailingValue as T;
+          } else {
+            windowEnd = undefined;
+          }
+          continue;
+        }
+
+        pending = undefined;
+        if (result.done) {
+          sourceDone = true;
+          if (hasTrailingValue) {
+            yield trailingValue as T;
+          }
+          return;
+        }
+        if (trailing) {
+          trailingValue = result.value;
+          hasTrailingValue = true;
+        }
+      }
+    } finally {
+      if (!sourceDone) {
+        await returnIterator(iterator, pending);
+      }
+    }
+  });
+
+const createTimeoutIterable = <T>(
+  iterableFactory: AsyncIterableFactory<T>,
+  msec: number
+): AsyncIterable<T> =>
+  createAsyncIterable(async function* () {
+    const normalizedMsec = normalizeDuration(msec, 'Timeout');
+    const iterator = iterableFactory()[Symbol.asyncIterator]();
+    let pending: Promise<IteratorResult<T>> | undefined;
+    let sourceDone = false;
+
+    try {
+      while (true) {
+        pending = iterator.next();
+        const result = await raceWithDelay(pending, normalizedMsec);
+        if (result === __TIMED_OUT) {
+          throw TIMEOUT_ERROR();
+        }
+
+        pending = undefined;
+        if (result.done) {
+          sourceDone = true;
+          return;
+        }
+        yield result.value;
+      }
+    } finally {
+      if (!sourceDone) {
+        await returnIterator(iterator, pending);
+      }
+    }
+  });
+
+const createSampleIterable = <T>(
+  iterableFactory: AsyncIterableFactory<T>,
+  msec: number
+): AsyncIterable<T> =>
+  createAsyncIterable(async function* () {
+    const normalizedMsec = normalizeDuration(msec, 'Sample time');
+    const iterator = iterableFactory()[Symbol.asyncIterator]();
+    let pending: Promise<IteratorResult<T>> | undefined;
+    let sourceDone = false;
+    let nextTick = getClock().now() + normalizedMsec;
+    let hasLatestValue = false;
+    let latestValue: T | undefined;
+
+    try {
+      while (true) {
+        pending ??= iterator.next();
+        const remaining = nextTick - getClock().now();
+        const result =
+          remaining > 0 ? await raceWithDelay(pending, remaining) : __TIMED_OUT;
+        if (result === __TIMED_OUT) {
+          // Skip the ticks missed while the consumer was busy
+          const now = getClock().now();
+          do {
+            nextTick += normalizedMsec;
+          } while (nextTick <= now);
+          if (hasLatestValue) {
+            hasLatestValue = false;
+            yield latestValue as T;
+          }
+          continue;
+        }
+
+        pending = undefined;
+        if (result.done) {
+          sourceDone = true;
+          return;
+        }
+        latestValue = result.value;
+        hasLatestValue = true;
+      }
+    } finally {
+      if (!sourceDone) {
+        await returnIterator(iterator, pending);
+      }
+    }
+  });
+
+const createBufferTimeIterable = <T>(
+  iterableFactory: AsyncIterableFactory<T>,
+  msec: number,
+  maxSize: number | undefined
+): AsyncIterable<T[]> =>
+  createAsyncIterable(async function* () {
+    const normalizedMsec = normalizeDuration(msec, 'Buffer time');
+    const normalizedMaxSize =
+      maxSize === undefined
+        ? Infinity
+        : normalizeRequiredCount(maxSize, 'Buffer size');
+    const iterator = iterableFactory()[Symbol.asyncIterator]();
+    let pending: Promise<IteratorResult<T>> | undefined;
+    let sourceDone = false;
+    let bufferEnd = 0;
+    let buffer: T[] = [];
+
+    try {
+      while (true) {
+        pending ??= iterator.next();
+        const result =
+          buffer.length === 0
+            ? await pending
+            : bufferEnd > getClock().now()
+              ? await raceWithDelay(pending, bufferEnd - getClock().now())
+              : __TIMED_OUT;
+        if (result === __TIMED_OUT) {
+          const values = buffer;
+          buffer = [];
+          yield values;
+          continue;
+        }
+
+        pending = undefined;
+        if (result.done) {
+          sourceDone = true;
+          if (buffer.length >= 1) {
+            yield buffer;
+          }
+          return;
+        }
+
+        // The buffer spans from its first value
+        if (buffer.length === 0) {
+          bufferEnd = getClock().now() + normalizedMsec;
+        }
+        buffer.push(result.value);
+        if (buffer.length >= normalizedMaxSize) {
+          const values = buffer;
+          buffer = [];
+          yield values;
+        }
+      }
+    } finally {
+      if (!sourceDone) {
+        await returnIterator(iterator, pending);
+      }
+    }
+  });
+
+type SourceEntry<T> = {
+  readonly iterator: AsyncIterator<T>;
+  pending: Promise<IteratorResult<T>> | undefined;
+};
+type SourceOutcome<T> =
+  | {
+      readonly entry: SourceEntry<T>;
+      readonly result: IteratorResult<T>;
+    }
+  | {
+      readonly entry: SourceEntry<T>;
+      readonly error: unknown;
+    };
+
+type SourceOutcomeQueue<T> = {
+  readonly outcomes: SourceOutcome<T>[];
+  wake: (() => void) | undefined;
+};
+
+const createSourceOutcomeQueue = <T>(): SourceOutcomeQueue<T> => ({
+  outcomes: [],
+  wake: undefined,
+});
+
+const requestNext = <T>(
+  entry: SourceEntry<T>,
+  queue: SourceOutcomeQueue<T>
+): void => {
+  const settle = (outcome: SourceOutcome<T>) => {
+    queue.outcomes.push(outcome);
+    const wake = queue.wake;
+    queue.wake = undefined;
+    wake?.();
+  };
+
+  // Observe each next() only once, so a slow source does not accumulate reactions
+  const pending = entry.iterator.next();
+  entry.pending = pending;
+  pending.then(
+    (result) => settle({ entry, result }),
+    (error: unknown) => settle({ entry, error })
+  );
+};
+
+const startSourceEntry = <T>(
+  iterableFactory: AsyncIterableFactory<T>,
+  queue: SourceOutcomeQueue<T>
+): SourceEntry<T> => {
+  const entry: SourceEntry<T> = {
+    iterator: iterableFactory()[Symbol.asyncIterator](),
+    pending: undefined,
+  };
+  requestNext(entry, queue);
+  return entry;
+};
+
+const takeOutcome = async <T>(
+  queue: SourceOutcomeQueue<T>
+): Promise<SourceOutcome<T>> => {
+  while (queue.outcomes.length === 0) {
+    await new Promise<void>((resolve) => {
+      queue.wake = resolve;
+    });
+  }
+  const outcome = queue.outcomes.shift()!;
+  outcome.entry.pending = undefined;
+  return outcome;
+};
+
+const returnSourceEntries = async <T>(
+  entries: readonly SourceEntry<T>[]
+): Promise<void> => {
+  await Promise.all(
+    entries.map((entry) => returnIterator(entry.iterator, entry.pending))
+  );
+};
+
+const createMergeIterable = <T>(
+  iterableFactories: readonly AsyncIterableFactory<T>[],
+  concurrency: number | undefined
+): AsyncIterable<T> =>
+  createAsyncIterable(async function* () {
+    const normalizedConcurrency =
+      concurrency === undefined
+        ? Infinity
+        : normalizeRequiredCount(concurrency, 'Concurrency');
+    const waitingFactories = [...iterableFactories];
+    const activeEntries: SourceEntry<T>[] = [];
+    const queue = createSourceOutcomeQueue<T>();
+
+    const removeEntry = (entry: SourceEntry<T>) => {
+      activeEntries.splice(activeEntries.indexOf(entry), 1);
+    };
+
+    try {
+      while (true) {
+        // Start the waiting sources up to the concurrency
+        while (
+          waitingFactories.length >= 1 &&
+          activeEntries.length < normalizedConcurrency
+        ) {
+          activeEntries.push(
+            startSourceEntry(waitingFactories.shift()!, queue)
+          );
+        }
+        if (activeEntries.length === 0) {
+          return;
+        }
+
+        const outcome = await takeOutcome(queue);
+        const entry = outcome.entry;
+        if ('error' in outcome) {
+          removeEntry(entry);
+          throw outcome.error;
+        }
+        if (outcome.result.done) {
+          removeEntry(entry);
+          continue;
+        }
+
+        yield outcome.result.value;
+        requestNext(entry, queue);
+      }
+    } finally {
+      await returnSourceEntries(activeEntries);
+    }
+  });
+
+const createRaceIterable = <T>(
+  iterableFactories: readonly AsyncIterableFactory<T>[]
+): AsyncIterable<T> =>
+  createAsyncIterable(async function* () {
+    const queue = createSourceOutcomeQueue<T>();
+    const activeEntries = iterableFactories.map((iterableFactory) =>
+      startSourceEntry(iterableFactory, queue)
+    );
+
+    try {
+      // Wait for the first source emitting a value, ignoring empty sources
+      let winner: SourceEntry<T> | undefined;
+      while (winner === undefined) {
+        if (activeEntries.length === 0) {
+          return;
+        }
+
+        const outcome = await takeOutcome(queue);
+        const entry = outcome.entry;
+        if ('error' in outcome) {
+          activeEntries.splice(activeEntries.indexOf(entry), 1);
+          throw outcome.error;
+        }
+        if (outcome.result.done) {
+          activeEntries.splice(activeEntries.indexOf(entry), 1);
+          continue;
+        }
+
+        // Cancel the other sources
+        winner = entry;
+        const losers = activeEntries.filter((other) => other !== entry);
+        activeEntries.splice(0, activeEntries.length, entry);
+        await returnSourceEntries(losers);
+        yield outcome.result.value;
+      }
+
+      while (true) {
+        winner.pending = winner.iterator.next();
+        const result = await winner.pending;
+        winner.pending = undefined;
+        if (result.done) {
+          activeEntries.length = 0;
+          return;
+        }
+        yield result.value;
+      }
+    } finally {
+      await returnSourceEntries(activeEntries);
+    }
+  });
+
+const createInterleaveIterable = <T>(
+  iterableFactories: readonly AsyncIterableFactory<T>[]
+): AsyncIterable<T> =>
+  createAsyncIterable(async function* () {
+    const activeIterators = iterableFactories.map((iterableFactory) =>
+      iterableFactory()[Symbol.asyncIterator]()
+    );
+
+    try {
+      let index = 0;
+      while (activeIterators.length >= 1) {
+        const iterator = activeIterators[index]!;
+        let result: IteratorResult<T>;
+        try {
+          result = await iterator.next();
+        } catch (error: unknown) {
+          activeIterators.splice(index, 1);
+          throw error;
+        }
+        if (result.done) {
+          activeIterators.splice(index, 1);
+        } else {
+          yield result.value;
+          index++;
+        }
+        if (index >= activeIterators.length) {
+          index = 0;
+        }
+      }
+    } finally {
+      await Promise.all(
+        activeIterators.map((iterator) => returnIterator(iterator, undefined))
+      );
+    }
+  });
+
+const createRetryIterable = <T>(
+  iterableFactory: AsyncIterableFactory<T>,
+  options: RetryOptions
+): AsyncIterable<T> =>
+  // Re-iterate the source from the beginning on each attempt
+  createAsyncIterable(() =>
+    iterateWithRetry(() => iterableFactory()[Symbol.asyncIterator](), options)
+  );
+
+type RouterChannel<T> = {
+  readonly values: T[];
+  started: boolean;
+  released: boolean;
+};
+type StreamRouter<T, TKey> = {
+  readonly takeChannel: (
+    channel: RouterChannel<T>
+  ) => Promise<IteratorResult<T, undefined>>;
+  readonly takeGroup: () => Promise<
+    IteratorResult<readonly [TKey, RouterChannel<T>], undefined>
+  >;
+  readonly createChannel: (key: TKey) => RouterChannel<T>;
+  readonly start: (channel: RouterChannel<T>) => void;
+  readonly release: (channel: RouterChannel<T> | undefined) => Promise<void>;
+};
+
+const createStreamRouter = <T, TKey>(
+  iterableFactory: AsyncIterableFactory<T>,
+  keySelector: (value: T, index: number) => Awaitable<TKey>,
+  bufferSize: number,
+  emitsGroups: boolean
+): StreamRouter<T, TKey> => {
+  const channels = new Map<TKey, RouterChannel<T>>();
+  const groups: (readonly [TKey, RouterChannel<T>])[] = [];
+  const notifiers: (() => void)[] = [];
+  let iterator: AsyncIterator<T> | undefined;
+  let pending: Promise<IteratorResult<T>> | undefined;
+  let pulling: Promise<void> | undefined;
+  let sourceDone = false;
+  let failure: { readonly error: unknown } | undefined;
+  let index = 0;
+  let groupsReleased = false;
+  // The groups consumer (if any) and every started channel not released yet
+  let activeCount = emitsGroups ? 1 : 0;
+
+  const notifyAll = () => {
+    for (const notify of notifiers.splice(0)) {
+      notify();
+    }
+  };
+
+  const waitForChange = () =>
+    new Promise<void>((resolve) => {
+      notifiers.push(resolve);
+    });
+
+  // Backpressure: do not pull while any buffer is full
+  const isBlocked = () => {
+    if (groups.length >= bufferSize) {
+      return true;
+    }
+    for (const channel of channels.values()) {
+      if (!channel.released && channel.values.length >= bufferSize) {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const createChannel = (key: TKey): RouterChannel<T> => {
+    const channel: RouterChannel<T> = {
+      values: [],
+      started: false,
+      released: false,
+    };
+    channels.set(key, channel);
+    return channel;
+  };
+
+  const start = (channel: RouterChannel<T>) => {
+    if (!channel.started && !channel.released) {
+      channel.started = true;
+      activeCount++;
+    }
+  };
+
+  const pullNext = async () => {
+    try {
+      iterator ??= iterableFactory()[Symbol.asyncIterator]();
+      pending = iterator.next();
+      const result = await pending;
+      pending = undefined;
+      if (result.done) {
+        sourceDone = true;
+        return;
+      }
+
+      const selectedKey = keySelector(result.value, index);
+      const key = isPromiseLike(selectedKey) ? await selectedKey : selectedKey;
+      index++;
+
+      let channel = channels.get(key);
+      if (channel === undefined) {
+        if (groupsReleased) {
+          // Nobody receives the new group
+          channel = { values: [], started: false, released: true };
+          channels.set(key, channel);
+        } else {
+          channel = createChannel(key);
+          if (emitsGroups) {
+            groups.push([key, channel]);
+          }
+        }
+      }
+      // Values for the released channels are discarded
+      if (!channel.released) {
+        channel.values.push(result.value);
+      }
+    } catch (error: unknown) {
+      pending = undefined;
+      sourceDone = true;
+      failure = { error };
+    } finally {
+      pulling = undefined;
+      notifyAll();
+    }
+  };
+
+  // Wait until the state changes, pulling the source if possible
+  const advance = () => {
+    if (isBlocked()) {
+      return waitForChange();
+    }
+    pulling ??= pullNext();
+    return pulling;
+  };
+
+  const takeChannel = async (
+    channel: RouterChannel<T>
+  ): Promise<IteratorResult<T, undefined>> => {
+    while (true) {
+      if (channel.values.length >= 1) {
+        const value = channel.values.shift() as T;
+        notifyAll();
+        return { done: false, value };
+      }
+      if (failure !== undefined) {
+        throw failure.error;
+      }
+      // The released channel never receives values anymore
+      if (sourceDone || channel.released) {
+        return { done: true, value: undefined };
+      }
+      await advance();
+    }
+  };
+
+  const takeGroup = async (): Promise<
+    IteratorResult<readonly [TKey, RouterChannel<T>], undefined>
+  > => {
+    while (true) {
+      if (groups.length >= 1) {
+        const group = groups.shift()!;
+        notifyAll();
+        return { done: false, value: group };
+      }
+      if (failure !== undefined) {
+        throw failure.error;
+      }
+      if (sourceDone) {
+        return { done: true, value: undefined };
+      }
+      await advance();
+    }
+  };
+
+  const releaseChannel = (channel: RouterChannel<T>) => {
+    channel.released = true;
+    channel.values.length = 0;
+    if (channel.started) {
+      activeCount--;
+    }
+  };
+
+  // Release the channel, or the groups consumer when undefined
+  const release = async (channel: RouterChannel<T> | undefined) => {
+    if (channel !== undefined) {
+      if (channel.released) {
+        return;
+      }
+      releaseChannel(channel);
+    } else {
+      // The groups not received or not iterated yet are never consumed
+      groupsReleased = true;
+      groups.length = 0;
+      for (const unstartedChannel of channels.values()) {
+        if (!unstartedChannel.started && !unstartedChannel.released) {
+          releaseChannel(unstartedChannel);
+        }
+      }
+      activeCount--;
+    }
+    notifyAll();
+
+    // Release the source when no started consumer remains
+    if (activeCount === 0 && !sourceDone && iterator !== undefined) {
+      sourceDone = true;
+      await returnIterator(iterator, pending);
+    }
+  };
+
+  return { takeChannel, takeGroup, createChannel, start, release };
+};
+
+const createChannelOperator = <T, TKey>(
+  getRouter: () => StreamRouter<T, TKey>,
+  getChannel: () => RouterChannel<T>
+): AsyncOperator<T> =>
+  createAsyncOperator<T>(() =>
+    createAsyncIterable(async function* () {
+      const router = getRouter();
+      const channel = getChannel();
+      router.start(channel);
+      try {
+        while (true) {
+          const result = await router.takeChannel(channel);
+          if (result.done) {
+            return;
+          }
+          yield result.value;
+        }
+      } finally {
+        await router.release(channel);
+      }
+    })
+  );
+
+const createSignalIterable = <T>(
+  iterableFactory: AsyncIterableFactory<T>,
+  signal: AbortSignal
+): AsyncIterable<T> =>
+  createAsyncIterable(async function* () {
+    if (signal.aborted) {
+      throw ABORTED_ERROR();
+    }
+
+    const iterator = iterableFactory()[Symbol.asyncIterator]();
+    let pending: Promise<IteratorResult<T>> | undefined;
+    let sourceDone = false;
+
+    try {
+      while (true) {
+        if (signal.aborted) {
+          throw ABORTED_ERROR();
+        }
+
+        pending = iterator.next();
+        const result = await raceWithAbort(pending, signal);
+        pending = undefined;
+        if (result.done) {
+          sourceDone = true;
+          return;
+        }
+        yield result.value;
+      }
+    } finally {
+      if (!sourceDone) {
+        await returnIterator(iterator, pending);
+      }
+    }
+  });
+
+type OrderingKey<T> = {
+  readonly keySelector: (value: T, index: number) => Awaitable<unknown>;
+  readonly comparer: (left: unknown, right: unknown) => number;
+  readonly descending: boolean;
+};
+
+const createOrderingKey = <T, TKey>(
+  keySelector: (value: T, index: number) => Awaitable<TKey>,
+  comparer: ((left: TKey, right: TKey) => number) | undefined,
+  descending: boolean
+): OrderingKey<T> => {
+  // The keys are stored as unknown, and always come from this key selector
+  const typedComparer = comparer ?? compareValues<TKey>;
+  return {
+    keySelector,
+    comparer: (left, right) => typedComparer(left as TKey, right as TKey),
+    descending,
+  };
+};
+
+const createOrderedAsyncOperator = <T>(
+  iteratorFactories: IteratorFactories<T>,
+  orderingKeys: readonly OrderingKey<T>[]
+): OrderedAsyncOperator<T> => {
+  const operator = createAsyncOperator<T>(() =>
+    createAsyncIterable(async function* () {
+      const values = await materializeValues(iteratorFactories);
+
+      // Compute every key once before sorting, the selectors may be async
+      const keys = new Array<unknown[]>(orderingKeys.length);
+      for (let keyIndex = 0; keyIndex < orderingKeys.length; keyIndex++) {
+        const { keySelector } = orderingKeys[keyIndex]!;
+        const selectedKeys = new Array<unknown>(values.length);
+        for (let index = 0; index < values.length; index++) {
+          const selectedKey = keySelector(values[index]!, index);
+          selectedKeys[index] = isPromiseLike(selectedKey)
+            ? await selectedKey
+            : selectedKey;
+        }
+        keys[keyIndex] = selectedKeys;
+      }
+
+      const indexes = values.map((_, index) => index);
+      indexes.sort((left, right) => {
+        for (let keyIndex = 0; keyIndex < orderingKeys.length; keyIndex++) {
+          const { comparer, descending } = orderingKeys[keyIndex]!;
+          const selectedKeys = keys[keyIndex]!;
+          const result = comparer(selectedKeys[left], selectedKeys[right]);
+          if (result !== 0) {
+            return descending ? -result : result;
+          }
+        }
+        // Keep the source order for equal keys
+        return left - right;
+      });
+
+      for (const index of indexes) {
+        yield values[index] as T;
+      }
+    })
+  );
 
-  return bestValue;
+  const appendOrderingKey =
+    (descending: boolean) =>
+    <TKey>(
+      keySelector: (value: T, index: number) => Awaitable<TKey>,
+      comparer?: (left: TKey, right: TKey) => number
+    ) =>
+      createOrderedAsyncOperator(iteratorFactories, [
+        ...orderingKeys,
+        createOrderingKey(keySelector, comparer, descending),
+      ]);
+
+  return {
+    ...operator,
+    thenBy: appendOrderingKey(false),
+    thenByDescending: appendOrderingKey(true),
+  };
 };
 
 const createAsyncOperator = <T>(
@@ -541,6 +1726,79 @@ const createAsyncOperator = <T>(
       )
     )) as AsyncOperator<T>['flat'];
 
+  // The forms without a selector are declared only for number sequences
+  const forEachSelectedNumber = (
+    selector: ((value: T, index: number) => Awaitable<number>) | undefined,
+    action: (value: number) => void
+  ): Promise<void> =>
+    selector !== undefined
+      ? forEachNumber(iteratorFactories, selector, action)
+      : forEachNumber(
+          iteratorFactories as IteratorFactories<number>,
+          identity,
+          action
+        );
+
+  const joinToString = async (separator?: string): Promise<string> => {
+    const normalizedSeparator = separator ?? ',';
+    let isFirst = true;
+    let result = '';
+
+    if (syncFactory !== undefined) {
+      for (const value of syncFactory()) {
+        const resolvedValue = (isPromiseLike(value) ? await value : value) as T;
+        if (!isFirst) {
+          result += normalizedSeparator;
+        }
+        result += resolvedValue == null ? '' : String(resolvedValue);
+        isFirst = false;
+      }
+    } else {
+      for await (const value of iterableFactory()) {
+        if (!isFirst) {
+          result += normalizedSeparator;
+        }
+        result += value == null ? '' : String(value);
+        isFirst = false;
+      }
+    }
+
+    return result;
+  };
+
+  const join = ((
+    separatorOrInner?: string | AsyncOperatorSource<unknown>,
+    outerKeySelector?: (value: T, index: number) => Awaitable<unknown>,
+    innerKeySelector?: (value: unknown, index: number) => Awaitable<unknown>,
+    resultSelector?: (value: T, inner: unknown) => Awaitable<unknown>
+  ) => {
+    // The string form never receives key selectors
+    if (outerKeySelector === undefined) {
+      return joinToString(separatorOrInner as string | undefined);
+    }
+
+    return createAsyncOperator(() =>
+      createAsyncIterable(async function* () {
+        const lookup = await collectLookup(
+          createIteratorFactories(
+            separatorOrInner as AsyncOperatorSource<unknown>
+          ),
+          innerKeySelector!
+        );
+        for await (const [value, inners] of iterateJoinMatches(
+          iteratorFactories,
+          lookup,
+          outerKeySelector
+        )) {
+          for (const inner of inners) {
+            const result = resultSelector!(value, inner);
+            yield isPromiseLike(result) ? await result : result;
+          }
+        }
+      })
+    );
+  }) as AsyncOperator<T>['join'];
+
   return {
     [Symbol.asyncIterator]: () => asyncFactory()[Symbol.asyncIterator](),
     map: <U>(selector: (value: T, index: number) => Awaitable<U>) =>
@@ -710,6 +1968,18 @@ const createAsyncOperator = <T>(
           }
         })
       ) as AsyncOperator<U>,
+    mapConcurrent: <U>(
+      selector: (value: T, index: number, signal: AbortSignal) => Awaitable<U>,
+      options: AsyncOperatorMapConcurrentOptions
+    ) =>
+      createAsyncOperator(() =>
+        createConcurrentIterable(
+          iterableFactory,
+          selector,
+          options.concurrency,
+          options.ordered ?? true
+        )
+      ) as AsyncOperator<U>,
     filter: (predicate: (value: T, index: number) => Awaitable<boolean>) =>
       appendLinearOperation<T>(
         {
@@ -799,6 +2069,45 @@ const createAsyncOperator = <T>(
         )
       ) as AsyncOperator<T>;
     },
+    merge: (
+      ...args: (AsyncOperatorSource<T> | AsyncOperatorMergeOptions)[]
+    ) => {
+      const lastArg = args[args.length - 1];
+      const hasOptions =
+        lastArg !== undefined &&
+        !isAsyncIterable(lastArg as AsyncOperatorSource<T>) &&
+        typeof (lastArg as Iterable<T>)[Symbol.iterator] !== 'function';
+      const sources = (
+        hasOptions ? args.slice(0, -1) : args
+      ) as AsyncOperatorSource<T>[];
+      const options = hasOptions
+        ? (lastArg as AsyncOperatorMergeOptions)
+        : undefined;
+
+      return createAsyncOperator(() =>
+        createMergeIterable(
+          [
+            iterableFactory,
+            ...sources.map((source) => () => toAsyncIterable(source)),
+          ],
+          options?.concurrency
+        )
+      ) as AsyncOperator<T>;
+    },
+    race: (...sources: AsyncOperatorSource<T>[]) =>
+      createAsyncOperator(() =>
+        createRaceIterable([
+          iterableFactory,
+          ...sources.map((source) => () => toAsyncIterable(source)),
+        ])
+      ) as AsyncOperator<T>,
+    interleave: (...sources: AsyncOperatorSource<T>[]) =>
+      createAsyncOperator(() =>
+        createInterleaveIterable([
+          iterableFactory,
+          ...sources.map((source) => () => toAsyncIterable(source)),
+        ])
+      ) as AsyncOperator<T>,
     choose: <U>(
       selector: (value: T, index: number) => Awaitable<U | null | undefined>
     ) =>
@@ -1505,6 +2814,103 @@ const createAsyncOperator = <T>(
           }
         })
       ) as AsyncOperator<T>,
+    groupJoin: <TInner, TKey, TResult>(
+      inner: AsyncOperatorSource<TInner>,
+      outerKeySelector: (value: T, index: number) => Awaitable<TKey>,
+      innerKeySelector: (value: TInner, index: number) => Awaitable<TKey>,
+      resultSelector: (value: T, inners: TInner[]) => Awaitable<TResult>
+    ) =>
+      createAsyncOperator(() =>
+        createAsyncIterable(async function* () {
+          const lookup = await collectLookup(
+            createIteratorFactories(inner),
+            innerKeySelector
+          );
+          for await (const [value, inners] of iterateJoinMatches(
+            iteratorFactories,
+            lookup,
+            outerKeySelector
+          )) {
+            // Copy so that the selector cannot modify the shared lookup
+            const result = resultSelector(value, inners.slice());
+            yield isPromiseLike(result) ? await result : result;
+          }
+        })
+      ) as AsyncOperator<TResult>,
+    leftJoin: <TInner, TKey, TResult>(
+      inner: AsyncOperatorSource<TInner>,
+      outerKeySelector: (value: T, index: number) => Awaitable<TKey>,
+      innerKeySelector: (value: TInner, index: number) => Awaitable<TKey>,
+      resultSelector: (
+        value: T,
+        inner: TInner | undefined
+      ) => Awaitable<TResult>
+    ) =>
+      createAsyncOperator(() =>
+        createAsyncIterable(async function* () {
+          const lookup = await collectLookup(
+            createIteratorFactories(inner),
+            innerKeySelector
+          );
+          for await (const [value, inners] of iterateJoinMatches(
+            iteratorFactories,
+            lookup,
+            outerKeySelector
+          )) {
+            if (inners.length === 0) {
+              const result = resultSelector(value, undefined);
+              yield isPromiseLike(result) ? await result : result;
+            }
+            for (const innerValue of inners) {
+              const result = resultSelector(value, innerValue);
+              yield isPromiseLike(result) ? await result : result;
+            }
+          }
+        })
+      ) as AsyncOperator<TResult>,
+    fullOuterJoin: <TInner, TKey, TResult>(
+      inner: AsyncOperatorSource<TInner>,
+      outerKeySelector: (value: T, index: number) => Awaitable<TKey>,
+      innerKeySelector: (value: TInner, index: number) => Awaitable<TKey>,
+      resultSelector: (
+        value: T | undefined,
+        inner: TInner | undefined
+      ) => Awaitable<TResult>
+    ) =>
+      createAsyncOperator(() =>
+        createAsyncIterable(async function* () {
+          const lookup = await collectLookup(
+            createIteratorFactories(inner),
+            innerKeySelector
+          );
+          const matchedKeys = new Set<TKey>();
+          for await (const [value, inners] of iterateJoinMatches(
+            iteratorFactories,
+            lookup,
+            outerKeySelector,
+            matchedKeys
+          )) {
+            if (inners.length === 0) {
+              const result = resultSelector(value, undefined);
+              yield isPromiseLike(result) ? await result : result;
+            }
+            for (const innerValue of inners) {
+              const result = resultSelector(value, innerValue);
+              yield isPromiseLike(result) ? await result : result;
+            }
+          }
+
+          // Produce the inner values never matched by the outer values
+          for (const [key, inners] of lookup) {
+            if (!matchedKeys.has(key)) {
+              for (const innerValue of inners) {
+                const result = resultSelector(undefined, innerValue);
+                yield isPromiseLike(result) ? await result : result;
+              }
+            }
+          }
+        })
+      ) as AsyncOperator<TResult>,
     chunkBySize: (size: number) =>
       createAsyncOperator(() =>
         createAsyncIterable(async function* () {
@@ -1630,6 +3036,218 @@ const createAsyncOperator = <T>(
           }
         })
       ) as AsyncOperator<T>,
+    groupByStream: <TKey>(
+      keySelector: (value: T, index: number) => Awaitable<TKey>,
+      options?: AsyncOperatorStreamBufferOptions
+    ) =>
+      createAsyncOperator(() =>
+        createAsyncIterable(async function* () {
+          const router = createStreamRouter(
+            iterableFactory,
+            keySelector,
+            normalizeRequiredCount(options?.bufferSize ?? 64, 'Buffer size'),
+            true
+          );
+          try {
+            while (true) {
+              const result = await router.takeGroup();
+              if (result.done) {
+                return;
+              }
+              const [key, channel] = result.value;
+              yield [
+                key,
+                createChannelOperator(
+                  () => router,
+                  () => channel
+                ),
+              ] as const;
+            }
+          } finally {
+            await router.release(undefined);
+          }
+        })
+      ) as AsyncOperator<readonly [TKey, AsyncOperator<T>]>,
+    partition: (
+      predicate: (value: T, index: number) => Awaitable<boolean>,
+      options?: AsyncOperatorStreamBufferOptions
+    ) => {
+      // Shared by both sides, created when either side starts the iteration
+      let router: StreamRouter<T, boolean> | undefined;
+      let matchedChannel: RouterChannel<T> | undefined;
+      let unmatchedChannel: RouterChannel<T> | undefined;
+      const getRouter = () => {
+        if (router === undefined) {
+          router = createStreamRouter(
+            iterableFactory,
+            async (value, index) => {
+              const result = predicate(value, index);
+              return !!(isPromiseLike(result) ? await result : result);
+            },
+            normalizeRequiredCount(options?.bufferSize ?? 64, 'Buffer size'),
+            false
+          );
+          matchedChannel = router.createChannel(true);
+          unmatchedChannel = router.createChannel(false);
+        }
+        return router;
+      };
+
+      return [
+        createChannelOperator(getRouter, () => matchedChannel!),
+        createChannelOperator(getRouter, () => unmatchedChannel!),
+      ] as const;
+    },
+    catchError: (
+      handler: (error: unknown) => Awaitable<AsyncOperatorSource<T>>
+    ) =>
+      createAsyncOperator(() =>
+        createAsyncIterable(async function* () {
+          try {
+            for await (const value of iterableFactory()) {
+              yield value as T;
+            }
+          } catch (error: unknown) {
+            // Switch to the fallback source
+            const selected = handler(error);
+            const fallback = isPromiseLike(selected)
+              ? await selected
+              : selected;
+            for await (const value of toAsyncIterable(fallback)) {
+              yield value as T;
+            }
+          }
+        })
+      ) as AsyncOperator<T>,
+    retry: (countOrOptions?: number | RetryOptions) =>
+      createAsyncOperator(() =>
+        createRetryIterable(
+          iterableFactory,
+          typeof countOrOptions === 'number'
+            ? { retries: countOrOptions, backoff: 'fixed', baseMs: 0 }
+            : (countOrOptions ?? {})
+        )
+      ) as AsyncOperator<T>,
+    onErrorResume: (...sources: AsyncOperatorSource<T>[]) =>
+      createAsyncOperator(() =>
+        createAsyncIterable(async function* () {
+          const iterableFactories: AsyncIterableFactory<T>[] = [
+            iterableFactory,
+            ...sources.map((source) => () => toAsyncIterable(source)),
+          ];
+          for (const currentFactory of iterableFactories) {
+            try {
+              for await (const value of currentFactory()) {
+                yield value as T;
+              }
+            } catch {
+              // Ignore the error and continue with the next source
+            }
+          }
+        })
+      ) as AsyncOperator<T>,
+    finally: (action: () => Awaitable<void>) =>
+      createAsyncOperator(() =>
+        createAsyncIterable(async function* () {
+          try {
+            for await (const value of iterableFactory()) {
+              yield value as T;
+            }
+          } finally {
+            const result = action();
+            if (isPromiseLike(result)) {
+              await result;
+            }
+          }
+        })
+      ) as AsyncOperator<T>,
+    tap: (
+      onNext?: (value: T, index: number) => Awaitable<void>,
+      onError?: (error: unknown) => Awaitable<void>,
+      onComplete?: () => Awaitable<void>
+    ) =>
+      createAsyncOperator(() =>
+        createAsyncIterable(async function* () {
+          const iterator = iterableFactory()[Symbol.asyncIterator]();
+          let sourceDone = false;
+          try {
+            for (let index = 0; ; index++) {
+              let next: IteratorResult<T>;
+              try {
+                next = await iterator.next();
+              } catch (error: unknown) {
+                // Only the source failures are observed, not the failures of onNext
+                sourceDone = true;
+                const result = onError?.(error);
+                if (isPromiseLike(result)) {
+                  await result;
+                }
+                throw error;
+              }
+              if (next.done) {
+                sourceDone = true;
+                break;
+              }
+              const result = onNext?.(next.value, index);
+              if (isPromiseLike(result)) {
+                await result;
+              }
+              yield next.value;
+            }
+          } finally {
+            if (!sourceDone) {
+              await iterator.return?.();
+            }
+          }
+          const result = onComplete?.();
+          if (isPromiseLike(result)) {
+            await result;
+          }
+        })
+      ) as AsyncOperator<T>,
+    debounce: (msec: number) =>
+      createAsyncOperator(() =>
+        createDebounceIterable(iterableFactory, msec)
+      ) as AsyncOperator<T>,
+    throttle: (msec: number, options?: AsyncOperatorThrottleOptions) =>
+      createAsyncOperator(() =>
+        createThrottleIterable(
+          iterableFactory,
+          msec,
+          options?.leading ?? true,
+          options?.trailing ?? false
+        )
+      ) as AsyncOperator<T>,
+    timeout: (msec: number) =>
+      createAsyncOperator(() =>
+        createTimeoutIterable(iterableFactory, msec)
+      ) as AsyncOperator<T>,
+    sample: (msec: number) =>
+      createAsyncOperator(() =>
+        createSampleIterable(iterableFactory, msec)
+      ) as AsyncOperator<T>,
+    bufferTime: (msec: number, maxSize?: number) =>
+      createAsyncOperator(() =>
+        createBufferTimeIterable(iterableFactory, msec, maxSize)
+      ) as AsyncOperator<T[]>,
+    orderBy: <TKey>(
+      keySelector: (value: T, index: number) => Awaitable<TKey>,
+      comparer?: (left: TKey, right: TKey) => number
+    ) =>
+      createOrderedAsyncOperator(iteratorFactories, [
+        createOrderingKey(keySelector, comparer, false),
+      ]),
+    orderByDescending: <TKey>(
+      keySelector: (value: T, index: number) => Awaitable<TKey>,
+      comparer?: (left: TKey, right: TKey) => number
+    ) =>
+      createOrderedAsyncOperator(iteratorFactories, [
+        createOrderingKey(keySelector, comparer, true),
+      ]),
+    withSignal: (signal: AbortSignal) =>
+      createAsyncOperator(() =>
+        createSignalIterable(iterableFactory, signal)
+      ) as AsyncOperator<T>,
     forEach: async (
       action: (value: T, index: number) => Awaitable<void>
     ): Promise<void> => {
@@ -1656,6 +3274,19 @@ const createAsyncOperator = <T>(
         }
       }
     },
+    forEachConcurrent: async (
+      action: (value: T, index: number, signal: AbortSignal) => Awaitable<void>,
+      options: AsyncOperatorForEachConcurrentOptions
+    ): Promise<void> => {
+      for await (const _ of createConcurrentIterable(
+        iterableFactory,
+        action,
+        options.concurrency,
+        false
+      )) {
+        // Results are discarded
+      }
+    },
     reduce,
     reduceRight,
     some: async (
@@ -1978,6 +3609,104 @@ const createAsyncOperator = <T>(
       selector: (value: T, index: number) => Awaitable<TKey>
     ): Promise<T | undefined> =>
       findExtremeBy(iteratorFactories, selector, 'max'),
+    count: async (
+      predicate?: (value: T, index: number) => Awaitable<boolean>
+    ): Promise<number> => {
+      let index = 0;
+      let count = 0;
+
+      if (syncFactory !== undefined) {
+        for (const value of syncFactory()) {
+          const resolvedValue = (
+            isPromiseLike(value) ? await value : value
+          ) as T;
+          const matched = predicate?.(resolvedValue, index) ?? true;
+          if (isPromiseLike(matched) ? await matched : matched) {
+            count++;
+          }
+          index++;
+        }
+      } else {
+        for await (const value of iterableFactory()) {
+          const matched = predicate?.(value, index) ?? true;
+          if (isPromiseLike(matched) ? await matched : matched) {
+            count++;
+          }
+          index++;
+        }
+      }
+
+      return count;
+    },
+    sum: (async (
+      selector?: (value: T, index: number) => Awaitable<number>
+    ): Promise<number> => {
+      let sum = 0;
+      await forEachSelectedNumber(selector, (value) => {
+        sum += value;
+      });
+      return sum;
+    }) as AsyncOperator<T>['sum'],
+    average: (async (
+      selector?: (value: T, index: number) => Awaitable<number>
+    ): Promise<number | undefined> => {
+      let sum = 0;
+      let count = 0;
+      await forEachSelectedNumber(selector, (value) => {
+        sum += value;
+        count++;
+      });
+      return count >= 1 ? sum / count : undefined;
+    }) as AsyncOperator<T>['average'],
+    stats: (async (
+      selector?: (value: T, index: number) => Awaitable<number>,
+      options?: AsyncOperatorStatsOptions
+    ): Promise<AsyncOperatorStats | undefined> => {
+      const percentiles = options?.percentiles ?? [0.5, 0.9, 0.99];
+      for (const percentile of percentiles) {
+        if (!(percentile >= 0 && percentile <= 1)) {
+          throw new RangeError('Percentile must be between 0 and 1');
+        }
+      }
+
+      const estimators = percentiles.map(createQuantileEstimator);
+      let count = 0;
+      let mean = 0;
+      let squaredDeviations = 0;
+      let min = Infinity;
+      let max = -Infinity;
+
+      await forEachSelectedNumber(selector, (value) => {
+        // Welford's online algorithm
+        count++;
+        const deviation = value - mean;
+        mean += deviation / count;
+        squaredDeviations += deviation * (value - mean);
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+        for (const estimator of estimators) {
+          estimator.add(value);
+        }
+      });
+
+      if (count === 0) {
+        return undefined;
+      }
+
+      return {
+        count,
+        mean,
+        variance: squaredDeviations / count,
+        min,
+        max,
+        percentiles: new Map(
+          percentiles.map((percentile, index) => [
+            percentile,
+            estimators[index]!.estimate(),
+          ])
+        ),
+      };
+    }) as AsyncOperator<T>['stats'],
     groupBy: async <TKey>(
       selector: (value: T, index: number) => Awaitable<TKey>
     ): Promise<Map<TKey, T[]>> => {
@@ -2050,35 +3779,98 @@ const createAsyncOperator = <T>(
 
       return counts;
     },
-    join: async (separator?: string): Promise<string> => {
-      const normalizedSeparator = separator ?? ',';
-      let isFirst = true;
-      let result = '';
+    join,
+    toArray: async (): Promise<T[]> => materializeValues(iteratorFactories),
+    toMap: async <TKey, TValue = T>(
+      keySelector: (value: T, index: number) => Awaitable<TKey>,
+      valueSelector?: (value: T, index: number) => Awaitable<TValue>,
+      options?: AsyncOperatorToMapOptions
+    ): Promise<Map<TKey, TValue>> => {
+      const onDuplicate = options?.onDuplicate ?? 'throw';
+      const normalizedValueSelector =
+        valueSelector ?? ((value: T) => value as unknown as TValue);
+      let index = 0;
+      const map = new Map<TKey, TValue>();
+
+      const add = async (value: T) => {
+        const selectedKey = keySelector(value, index);
+        const key = isPromiseLike(selectedKey)
+          ? await selectedKey
+          : selectedKey;
+        if (map.has(key)) {
+          if (onDuplicate === 'throw') {
+            throw new Error('Async operator found a duplicate key');
+          }
+          if (onDuplicate === 'first') {
+            index++;
+            return;
+          }
+        }
+        const selectedValue = normalizedValueSelector(value, index);
+        map.set(
+          key,
+          isPromiseLike(selectedValue) ? await selectedValue : selectedValue
+        );
+        index++;
+      };
 
       if (syncFactory !== undefined) {
         for (const value of syncFactory()) {
-          const resolvedValue = (
-            isPromiseLike(value) ? await value : value
-          ) as T;
-          if (!isFirst) {
-            result += normalizedSeparator;
-          }
-          result += resolvedValue == null ? '' : String(resolvedValue);
-          isFirst = false;
+          await add((isPromiseLike(value) ? await value : value) as T);
         }
       } else {
         for await (const value of iterableFactory()) {
-          if (!isFirst) {
-            result += normalizedSeparator;
+          await add(value);
+        }
+      }
+
+      return map;
+    },
+    toSet: async (): Promise<Set<T>> =>
+      new Set(await materializeValues(iteratorFactories)),
+    toObject: async <TKey extends PropertyKey, TValue>(
+      keySelector: (value: T, index: number) => Awaitable<TKey>,
+      valueSelector: (value: T, index: number) => Awaitable<TValue>
+    ): Promise<Record<TKey, TValue>> => {
+      let index = 0;
+      const result = {} as Record<TKey, TValue>;
+
+      const add = async (value: T) => {
+        const selectedKey = keySelector(value, index);
+        const selectedValue = valueSelector(value, index);
+        // Define as a data property, so `__proto__` does not replace the prototype
+        // and keys such as `1` and '1' are the same property
+        Object.defineProperty(
+          result,
+          isPromiseLike(selectedKey) ? await selectedKey : selectedKey,
+          {
+            value: isPromiseLike(selectedValue)
+              ? await selectedValue
+              : selectedValue,
+            writable: true,
+            enumerable: true,
+            configurable: true,
           }
-          result += value == null ? '' : String(value);
-          isFirst = false;
+        );
+        index++;
+      };
+
+      if (syncFactory !== undefined) {
+        for (const value of syncFactory()) {
+          await add((isPromiseLike(value) ? await value : value) as T);
+        }
+      } else {
+        for await (const value of iterableFactory()) {
+          await add(value);
         }
       }
 
       return result;
     },
-    toArray: async (): Promise<T[]> => materializeValues(iteratorFactories),
+    toLookup: async <TKey>(
+      keySelector: (value: T, index: number) => Awaitable<TKey>
+    ): Promise<AsyncOperatorLookup<TKey, T>> =>
+      createLookup(await collectLookup(iteratorFactories, keySelector)),
   };
 };
 
@@ -2089,3 +3881,139 @@ const createAsyncOperator = <T>(
  */
 export const from = <T>(source: AsyncOperatorSource<T>): AsyncOperator<T> =>
   createAsyncOperator(createIteratorFactories(source));
+
+/**
+ * Creates an async operator pipeline of sequential integers
+ * @param start - The first integer
+ * @param count - Number of integers to generate
+ * @returns A lazy async operator pipeline
+ */
+export const range = (start: number, count: number): AsyncOperator<number> =>
+  createAsyncOperator(
+    createIteratorFactories<number>(
+      createSyncIterable(function* () {
+        if (!Number.isInteger(count) || count < 0) {
+          throw new RangeError('Range count must be 0 or greater');
+        }
+        for (let index = 0; index < count; index++) {
+          yield start + index;
+        }
+      })
+    )
+  );
+
+/**
+ * Creates an async operator pipeline repeating the value
+ * @param value - The value to repeat
+ * @param count - Optional number of repetitions (Default: infinite)
+ * @returns A lazy async operator pipeline
+ */
+export const repeat = <T>(value: T, count?: number): AsyncOperator<T> =>
+  createAsyncOperator(
+    createIteratorFactories<T>(
+      createSyncIterable(function* () {
+        const normalizedCount = count ?? Infinity;
+        if (Number.isNaN(normalizedCount) || normalizedCount < 0) {
+          throw new RangeError('Repeat count must be 0 or greater');
+        }
+        for (let index = 0; index < normalizedCount; index++) {
+          yield value;
+        }
+      })
+    )
+  );
+
+/**
+ * Creates an async operator pipeline by repeatedly computing the next value from the previous one
+ * @param seed - The first value
+ * @param next - Function computing the next value from the previous value
+ * @param until - Predicate that ends the sequence when it returns true, the value is not emitted
+ * @returns A lazy async operator pipeline
+ */
+export const generate = <T>(
+  seed: T,
+  next: (value: T, index: number) => Awaitable<T>,
+  until: (value: T, index: number) => Awaitable<boolean>
+): AsyncOperator<T> =>
+  createAsyncOperator<T>(() =>
+    createAsyncIterable(async function* () {
+      let value = seed;
+      for (let index = 0; ; index++) {
+        const result = until(value, index);
+        if (isPromiseLike(result) ? await result : result) {
+          return;
+        }
+        yield value;
+        const nextValue = next(value, index);
+        value = (isPromiseLike(nextValue) ? await nextValue : nextValue) as T;
+      }
+    })
+  );
+
+/**
+ * Creates an async operator pipeline emitting sequential numbers periodically
+ * @param msec - Interval in milliseconds waited before each value
+ * @param signal - Optional AbortSignal for ending the sequence
+ * @returns A lazy async operator pipeline of 0, 1, 2, ...
+ * @remarks The sequence is infinite, and rejects with the abort error when the signal is aborted.
+ */
+export const interval = (
+  msec: number,
+  signal?: AbortSignal
+): AsyncOperator<number> =>
+  createAsyncOperator(() =>
+    createAsyncIterable(async function* () {
+      const normalizedMsec = normalizeDuration(msec, 'Interval');
+      for (let index = 0; ; index++) {
+        if (signal?.aborted) {
+          throw ABORTED_ERROR();
+        }
+        try {
+          await delay(normalizedMsec, signal);
+        } catch (error: unknown) {
+          if (signal?.aborted) {
+            throw ABORTED_ERROR();
+          }
+          throw error;
+        }
+        yield index;
+      }
+    })
+  );
+
+/**
+ * Creates an async operator pipeline whose source is created on each iteration
+ * @param factory - Factory function invoked lazily when each iteration starts
+ * @returns A lazy async operator pipeline
+ */
+export const deferFrom = <T>(
+  factory: () => Awaitable<AsyncOperatorSource<T>>
+): AsyncOperator<T> =>
+  createAsyncOperator<T>(() =>
+    createAsyncIterable(async function* () {
+      const created = factory();
+      const source = isPromiseLike(created) ? await created : created;
+      for await (const value of toAsyncIterable(source)) {
+        yield value as T;
+      }
+    })
+  );
+
+/**
+ * Creates an empty async operator pipeline
+ * @returns A lazy async operator pipeline without values
+ */
+export const empty = <T = never>(): AsyncOperator<T> =>
+  createAsyncOperator(createIteratorFactories<T>([]));
+
+/**
+ * Creates an async operator pipeline that fails on iteration
+ * @param error - The error to throw when the iteration starts
+ * @returns A lazy async operator pipeline rejecting with the error
+ */
+export const throwError = <T = never>(error: unknown): AsyncOperator<T> =>
+  createAsyncOperator<T>(() =>
+    createAsyncIterable(async function* () {
+      throw error;
+    })
+  );
@@ -0,0 +1,136 @@
+// async-primitives - A collection of primitive functions for asynchronous operations in TypeScript/JavaScript.
+// Copyright (c) Kouji Matsui. (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/async-primitives
+
+import { Barrier, BarrierOptions, Deferred, Releasable } from '../types';
+import { onAbort } from './abort-hook';
+import { createDeferred } from './deferred';
+import { __NOOP_DUMMY_HANDLE, __NOOP_RELEASABLE } from './internal/utils';
+
+/**
+ * Internal participant waiting at the barrier
+ */
+interface Participant {
+  /** Deferred resolved with the completed phase number */
+  readonly deferred: Deferred<number>;
+  /** Releasable for the abort hook */
+  disposer: Releasable;
+}
+
+const ABORTED_ERROR = () => new Error('Barrier aborted');
+const BROKEN_ERROR = () => new Error('Barrier is broken');
+
+/**
+ * Creates a barrier that all participants meet before any proceeds
+ * @param participants The number of participants (must be greater than 0)
+ * @param options Optional options for the Barrier
+ * @returns A new Barrier for synchronizing participants in phases
+ */
+export const createBarrier = (
+  participants: number,
+  options?: BarrierOptions
+): Barrier => {
+  if (!Number.isInteger(participants) || participants < 1) {
+    throw new Error('Barrier participants must be greater than 0');
+  }
+
+  const onPhaseComplete = options?.onPhaseComplete;
+  let waiting: Participant[] = [];
+  let currentPhase = 0;
+  let isBroken = false;
+
+  const breakBarrier = (error: unknown) => {
+    isBroken = true;
+    // Reject all waiting participants
+    for (const participant of waiting.splice(0)) {
+      participant.disposer.release();
+      participant.deferred.reject(error);
+    }
+  };
+
+  const completePhase = () => {
+    const phase = currentPhase;
+    const arrived = waiting;
+    waiting = [];
+    for (const participant of arrived) {
+      participant.disposer.release();
+    }
+
+    if (onPhaseComplete) {
+      try {
+        onPhaseComplete(phase);
+      } catch (error: unknown) {
+        isBroken = true;
+        for (const participant of arrived) {
+          participant.deferred.reject(error);
+        }
+        return;
+      }
+    }
+
+    currentPhase++;
+    for (const participant of arrived) {
+      participant.deferred.resolve(phase);
+    }
+  };
+
+  const wait = (signal?: AbortSignal): Promise<number> => {
+    if (isBroken) {
+      return Promise.reject(BROKEN_ERROR());
+    }
+    if (signal?.aborted) {
+      // Arriving with an aborted signal also breaks the barrier for everyone
+      breakBarrier(BROKEN_ERROR());
+      return Promise.reject(ABORTED_ERROR());
+    }
+
+    const participant: Participant = {
+      deferred: createDeferred<number>(),
+      disposer: __NOOP_RELEASABLE,
+    };
+    waiting.push(participant);
+
+    if (waiting.length >= participants) {
+      completePhase();
+    } else {
+      participant.disposer = onAbort(signal, () => {
+        waiting.splice(waiting.indexOf(participant), 1);
+        participant.deferred.reject(ABORTED_ERROR());
+        breakBarrier(BROKEN_ERROR());
+      });
+    }
+
+    return participant.deferred.promise;
+  };
+
+  const reset = () => {
+    breakBarrier(BROKEN_ERROR());
+    isBroken = false;
+  };
+
+  const result: Barrier = {
+    wait,
+    reset,
+    waiter: {
+      wait: async (signal?: AbortSignal) => {
+        await wait(signal);
+        return __NOOP_DUMMY_HANDLE;
+      },
+    },
+    get participants() {
+      return participants;
+    },
+    get arrivedCount() {
+      return waiting.length;
+    },
+    get currentPhase() {
+      return currentPhase;
+    },
+    get isBroken() {
+      return isBroken;
+    },
+  };
+
+  return result;
+};
@@ -0,0 +1,383 @@
+// async-primitives - A collection of primitive functions for asynchronous operations in TypeScript/JavaScript.
+// Copyright (c) Kouji Matsui. (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/async-primitives
+
+import {
+  Channel,
+  ChannelOptions,
+  ChannelReceived,
+  ChannelSelectCase,
+  ChannelSelectResult,
+} from '../types';
+import { onAbort } from './abort-hook';
+import { createDeferred } from './deferred';
+import { ChannelClosedError } from './errors';
+
+/**
+ * Token shared by the waiters of one operation, only one of them can complete
+ */
+interface OperationToken {
+  /** Whether the operation is already completed */
+  done: boolean;
+}
+
+/**
+ * Internal waiting receiver
+ */
+interface ReceiverItem<T> {
+  /** Token of the operation */
+  readonly token: OperationToken;
+  /** Called with the received value, or undefined when the channel is closed */
+  readonly resolve: (received: ChannelReceived<T> | undefined) => void;
+}
+
+/**
+ * Internal waiting sender
+ */
+interface SenderItem<T> {
+  /** Token of the operation */
+  readonly token: OperationToken;
+  /** The value to send */
+  readonly value: T;
+  /** Called when the value is buffered or taken by a receiver */
+  readonly resolve: () => void;
+  /** Called when the channel is closed */
+  readonly reject: (error: Error) => void;
+}
+
+/**
+ * Internal state of a channel shared with `select()`
+ */
+interface ChannelCore<T> {
+  /** Send the value if possible without waiting */
+  readonly trySend: (value: T) => boolean;
+  /** Receive a value if possible without waiting, 'closed' when closed and drained */
+  readonly tryReceive: () => ChannelReceived<T> | 'closed' | undefined;
+  /** Waiting senders */
+  readonly senders: SenderItem<T>[];
+  /** Waiting receivers */
+  readonly receivers: ReceiverItem<T>[];
+}
+
+const channelCores = new WeakMap<Channel<any>, ChannelCore<any>>();
+
+const SEND_ABORTED_ERROR = () => new Error('Channel send aborted');
+const RECEIVE_ABORTED_ERROR = () => new Error('Channel receive aborted');
+const SELECT_ABORTED_ERROR = () => new Error('Channel select aborted');
+
+/**
+ * Removes the item from the queue if it is still queued
+ * @param queue The queue to remove from
+ * @param item The item to remove
+ */
+const removeFromQueue = <T>(queue: T[], item: T) => {
+  const index = queue.indexOf(item);
+  if (index >= 0) {
+    queue.splice(index, 1);
+  }
+};
+
+/**
+ * Creates a new channel for passing values between producers and consumers
+ * @param T - The type of the values
+ * @param options - Optional options for the channel
+ * @returns A new Channel supporting unbuffered (rendezvous) and buffered modes
+ */
+export const createChannel = <T>(options?: ChannelOptions): Channel<T> => {
+  const capacity = options?.capacity ?? 0;
+  if (!Number.isInteger(capacity) || capacity < 0) {
+    throw new Error('Channel capacity must be 0 or greater');
+  }
+
+  const buffer: T[] = [];
+  const senders: SenderItem<T>[] = [];
+  const receivers: ReceiverItem<T>[] = [];
+  let isClosed = false;
+
+  const trySend = (value: T): boolean => {
+    if (isClosed) {
+      throw new ChannelClosedError();
+    }
+    // Hand over directly to a waiting receiver
+    while (receivers.length >= 1) {
+      const receiver = receivers.shift()!;
+      if (!receiver.token.done) {
+        receiver.token.done = true;
+        receiver.resolve({ value });
+        return true;
+      }
+    }
+    // Buffer if there is space
+    if (buffer.length < capacity) {
+      buffer.push(value);
+      return true;
+    }
+    return false;
+  };
+
+  // Take the next waiting sender still waiting
+  const takeSender = (): SenderItem<T> | undefined => {
+    while (senders.length >= 1) {
+      const sender = senders.shift()!;
+      if (!sender.token.done) {
+        sender.token.done = true;
+        return sender;
+      }
+    }
+    return undefined;
+  };
+
+  const tryReceive = (): ChannelReceived<T> | 'closed' | undefined => {
+    if (buffer.length >= 1) {
+      const value = buffer.shift()!;
+      // Move a waiting sender into the freed space
+      const sender = takeSender();
+      if (sender) {
+        buffer.push(sender.value);
+        sender.resolve();
+      }
+      return { value };
+    }
+    // Unbuffered (or drained), take directly from a waiting sender
+    const sender = takeSender();
+    if (sender) {
+      sender.resolve();
+      return { value: sender.value };
+    }
+    return isClosed ? 'closed' : undefined;
+  };
+
+  const send = async (value: T, signal?: AbortSignal): Promise<void> => {
+    if (signal?.aborted) {
+      throw SEND_ABORTED_ERROR();
+    }
+    if (trySend(value)) {
+      return;
+    }
+
+    const token: OperationToken = { done: false };
+    const deferred = createDeferred<void>();
+    const sender: SenderItem<T> = {
+      token,
+      value,
+      resolve: deferred.resolve,
+      reject: deferred.reject,
+    };
+    senders.push(sender);
+
+    const disposer = onAbort(signal, () => {
+      if (!token.done) {
+        token.done = true;
+        removeFromQueue(senders, sender);
+        deferred.reject(SEND_ABORTED_ERROR());
+      }
+    });
+    try {
+      await deferred.promise;
+    } finally {
+      disposer.release();
+    }
+  };
+
+  // Receive a value, or undefined when the channel is closed and drained
+  const receiveOrClosed = async (
+    signal: AbortSignal | undefined
+  ): Promise<ChannelReceived<T> | undefined> => {
+    if (signal?.aborted) {
+      throw RECEIVE_ABORTED_ERROR();
+    }
+    const received = tryReceive();
+    if (received === 'closed') {
+      return undefined;
+    }
+    if (received) {
+      return received;
+    }
+
+    const token: OperationToken = { done: false };
+    const deferred = createDeferred<ChannelReceived<T> | undefined>();
+    const receiver: ReceiverItem<T> = {
+      token,
+      resolve: deferred.resolve,
+    };
+    receivers.push(receiver);
+
+    const disposer = onAbort(signal, () => {
+      if (!token.done) {
+        token.done = true;
+        removeFromQueue(receivers, receiver);
+        deferred.reject(RECEIVE_ABORTED_ERROR());
+      }
+    });
+    try {
+      return await deferred.promise;
+    } finally {
+      disposer.release();
+    }
+  };
+
+  const receive = async (signal?: AbortSignal): Promise<T> => {
+    const received = await receiveOrClosed(signal);
+    if (!received) {
+      throw new ChannelClosedError();
+    }
+    return received.value;
+  };
+
+  const close = () => {
+    if (isClosed) {
+      return;
+    }
+    isClosed = true;
+    // Reject all waiting senders
+    for (const sender of senders.splice(0)) {
+      if (!sender.token.done) {
+        sender.token.done = true;
+        sender.reject(new ChannelClosedError());
+      }
+    }
+    // Waiting receivers exist only when the buffer is empty
+    for (const receiver of receivers.splice(0)) {
+      if (!receiver.token.done) {
+        receiver.token.done = true;
+        receiver.resolve(undefined);
+      }
+    }
+  };
+
+  const channel: Channel<T> = {
+    send,
+    receive,
+    tryReceive: () => {
+      const received = tryReceive();
+      return received === 'closed' ? undefined : received;
+    },
+    close,
+    get capacity() {
+      return capacity;
+    },
+    get length() {
+      return buffer.length;
+    },
+    get isClosed() {
+      return isClosed;
+    },
+    [Symbol.asyncIterator]: async function* () {
+      // Iterate until the channel is closed and drained
+      while (true) {
+        const received = await receiveOrClosed(undefined);
+        if (!received) {
+          return;
+        }
+        yield received.value;
+      }
+    },
+  };
+
+  channelCores.set(channel, { trySend, tryReceive, senders, receivers });
+  return channel;
+};
+
+/**
+ * Gets the internal state of the channel
+ * @param channel The channel created by `createChannel()`
+ * @returns The internal state
+ */
+const getChannelCore = <T>(channel: Channel<T>): ChannelCore<T> => {
+  const core = channelCores.get(channel);
+  if (!core) {
+    throw new Error('Channel is not created by createChannel()');
+  }
+  return core;
+};
+
+/**
+ * Waits until the first ready case completes across several channels
+ * @param cases The send and receive cases
+ * @param signal Optional AbortSignal for cancelling the select
+ * @returns Promise that resolves to the completed case index and the received value
+ * @remarks When several cases are ready at the same time, the first one in the array is chosen.
+ * The other cases are cancelled without sending or receiving any value.
+ * A receive case on a closed and drained channel completes with `closed: true`,
+ * and a send case on a closed channel rejects with `ChannelClosedError`.
+ */
+export const select = async <T = any>(
+  cases: readonly ChannelSelectCase<T>[],
+  signal?: AbortSignal
+): Promise<ChannelSelectResult<T>> => {
+  if (signal?.aborted) {
+    throw SELECT_ABORTED_ERROR();
+  }
+  if (cases.length === 0) {
+    throw new Error('Channel select requires at least one case');
+  }
+
+  // Complete a ready case immediately if exists
+  for (let index = 0; index < cases.length; index++) {
+    const selectCase = cases[index]!;
+    if ('send' in selectCase) {
+      if (getChannelCore(selectCase.send).trySend(selectCase.value)) {
+        return { index, value: undefined, closed: false };
+      }
+    } else {
+      const received = getChannelCore(selectCase.receive).tryReceive();
+      if (received === 'closed') {
+        return { index, value: undefined, closed: true };
+      }
+      if (received) {
+        return { index, value: received.value, closed: false };
+      }
+    }
+  }
+
+  // Wait on all cases, sharing the token so only one of them completes
+  const token: OperationToken = { done: false };
+  const deferred = createDeferred<ChannelSelectResult<T>>();
+  const cancellers: (() => void)[] = [];
+
+  for (let index = 0; index < cases.length; index++) {
+    const selectCase = cases[index]!;
+    if ('send' in selectCase) {
+      const core = getChannelCore(selectCase.send);
+      const sender: SenderItem<T> = {
+        token,
+        value: selectCase.value,
+        resolve: () =>
+          deferred.resolve({ index, value: undefined, closed: false }),
+        reject: deferred.reject,
+      };
+      core.senders.push(sender);
+      cancellers.push(() => removeFromQueue(core.senders, sender));
+    } else {
+      const core = getChannelCore(selectCase.receive);
+      const receiver: ReceiverItem<T> = {
+        token,
+        resolve: (received) =>
+          deferred.resolve(
+            received
+              ? { index, value: received.value, closed: false }
+              : { index, value: undefined, closed: true }
+          ),
+      };
+      core.receivers.push(receiver);
+      cancellers.push(() => removeFromQueue(core.receivers, receiver));
+    }
+  }
+
+  const disposer = onAbort(signal, () => {
+    if (!token.done) {
+      token.done = true;
+      deferred.reject(SELECT_ABORTED_ERROR());
+    }
+  });
+  try {
+    return await deferred.promise;
+  } finally {
+    disposer.release();
+    // Cancel the rest of the cases
+    for (const cancel of cancellers) {
+      cancel();
+    }
+  }
+};
@@ -0,0 +1,163 @@
+// async-primitives - A collection of primitive functions for asynchronous operations in TypeScript/JavaScript.
+// Copyright (c) Kouji Matsui. (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/async-primitives
+
+import { Clock, Releasable, VirtualClock } from '../types';
+
+type RuntimeSetImmediate = ((callback: () => void) => unknown) | undefined;
+
+type RuntimeGlobal = typeof globalThis & {
+  setImmediate?: RuntimeSetImmediate;
+};
+
+const runtimeGlobal = globalThis as RuntimeGlobal;
+
+/**
+ * Defer execution of a callback to the next tick with the runtime scheduler.
+ * @param fn - The function to execute.
+ */
+const runtimeDefer = (fn: () => void): void => {
+  const setImmediateHandler = runtimeGlobal.setImmediate;
+  if (typeof setImmediateHandler === 'function') {
+    setImmediateHandler(fn);
+    return;
+  }
+
+  globalThis.setTimeout(fn, 0);
+};
+
+/**
+ * The clock using the runtime timers
+ * @remarks The runtime timers are looked up on each call, so the logical context hooks are applied.
+ */
+const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimer: (callback: () => void, msec: number): Releasable => {
+    const timeoutId = setTimeout(callback, msec);
+    const release = () => clearTimeout(timeoutId);
+    return {
+      release,
+      [Symbol.dispose]: release,
+    };
+  },
+  defer: runtimeDefer,
+};
+
+let currentClock: Clock = systemClock;
+
+/**
+ * Get the clock used by the library
+ * @returns The current clock
+ */
+export const getClock = (): Clock => currentClock;
+
+/**
+ * Set the clock used by the library
+ * @param clock The clock to use, or undefined to restore the runtime clock
+ * @remarks Affects `delay()`, `defer()`, lock timeouts, priority aging and the `maxConsecutiveCalls` yielding.
+ */
+export const setClock = (clock: Clock | undefined): void => {
+  currentClock = clock ?? systemClock;
+};
+
+/////////////////////////////////////////////////////////////
+
+/**
+ * Internal timer of the virtual clock
+ */
+interface VirtualTimer {
+  /** Time in milliseconds when the timer is due */
+  readonly dueAt: number;
+  /** The callback to invoke */
+  readonly callback: () => void;
+}
+
+// Wait for a runtime tick, so the pending promise continuations are settled
+const settle = () => new Promise<void>((resolve) => runtimeDefer(resolve));
+
+/**
+ * Creates a virtual clock that advances only when requested
+ * @param startTime - Optional initial time in milliseconds (Default: 0)
+ * @returns A new VirtualClock for deterministic timing
+ * @remarks Use with `setClock()` to make the library timing deterministic.
+ * Deferred callbacks are treated as timers due at the current time.
+ */
+export const createVirtualClock = (startTime: number = 0): VirtualClock => {
+  let now = startTime;
+  // Ordered by the due time, then the scheduled order
+  const timers: VirtualTimer[] = [];
+
+  const setTimer = (callback: () => void, msec: number): Releasable => {
+    const timer: VirtualTimer = {
+      dueAt: now + Math.max(msec, 0),
+      callback,
+    };
+    let index = timers.length;
+    while (index > 0 && timers[index - 1]!.dueAt > timer.dueAt) {
+      index--;
+    }
+    timers.splice(index, 0, timer);
+
+    const release = () => {
+      const index = timers.indexOf(timer);
+      if (index >= 0) {
+        timers.splice(index, 1);
+      }
+    };
+    return {
+      release,
+      [Symbol.dispose]: release,
+    };
+  };
+
+  // Invoke the next timer due until the limit
+  const runNext = async (limit: number): Promise<boolean> => {
+    const timer = timers[0];
+    if (!timer || timer.dueAt > limit) {
+      return false;
+    }
+    timers.shift();
+    now = Math.max(now, timer.dueAt);
+    timer.callback();
+    await settle();
+    return true;
+  };
+
+  const advance = async (msec: number) => {
+    if (msec < 0) {
+      throw new Error('Virtual clock cannot go back');
+    }
+    const target = now + msec;
+    await settle();
+    while (await runNext(target)) {
+      // Invoke the timers due until the target time
+    }
+    now = target;
+  };
+
+  const runAll = async (maxTimers: number = 10000) => {
+    await settle();
+    let count = 0;
+    while (timers.length >= 1) {
+      if (count >= maxTimers) {
+        throw new Error('Virtual clock timers did not settle');
+      }
+      count++;
+      await runNext(Infinity);
+    }
+  };
+
+  return {
+    now: () => now,
+    setTimer,
+    defer: (callback: () => void) => {
+      setTimer(callback, 0);
+    },
+    advance,
+    runAll,
+    get pendingCount() {
+      return timers.length;
+    },
+  };
+};
@@ -0,0 +1,64 @@
+// async-primitives - A collection of primitive functions for asynchronous operations in TypeScript/JavaScript.
+// Copyright (c) Kouji Matsui. (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/async-primitives
+
+import { ConditionVariable, LockHandle, Mutex } from '../types';
+import { createConditional } from './conditional';
+
+const ABORTED_ERROR = () => new Error('Condition variable wait aborted');
+
+/**
+ * Creates a condition variable paired with a Mutex
+ * @param mutex The Mutex protecting the shared state
+ * @returns A new ConditionVariable for waiting on shared state changes under the lock
+ * @remarks Releasing the handle and starting the wait are done atomically, so a notification between them is never lost.
+ */
+export const createConditionVariable = (mutex: Mutex): ConditionVariable => {
+  const conditional = createConditional();
+
+  const wait = async (
+    handle: LockHandle,
+    signal?: AbortSignal
+  ): Promise<LockHandle> => {
+    if (!handle.isActive) {
+      throw new Error('Lock handle is not active');
+    }
+    if (signal?.aborted) {
+      throw ABORTED_ERROR();
+    }
+
+    // The waiter is enqueued synchronously, before the lock is released
+    const waiting = conditional.wait(signal);
+    handle.release();
+
+    try {
+      await waiting;
+    } catch (error: unknown) {
+      // If the signal is aborted, throw a more descriptive error
+      if (error instanceof Error && error.message === 'Conditional aborted') {
+        error.message = 'Condition variable wait aborted';
+      }
+      throw error;
+    }
+
+    try {
+      return await mutex.lock(signal);
+    } catch (error: unknown) {
+      // The notification is already consumed, so pass it to the next waiter.
+      // This also covers the abort landing in the same tick as the notification,
+      // the notified waiter is no longer queued so the others stay untouched.
+      conditional.trigger();
+      if (signal?.aborted) {
+        throw ABORTED_ERROR();
+      }
+      throw error;
+    }
+  };
+
+  return {
+    wait,
+    notifyOne: conditional.trigger,
+    notifyAll: conditional.triggerAll,
+  };
+};
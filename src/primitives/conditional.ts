@@ -3,23 +3,61 @@
 // Under MIT.
 // https://github.com/kekyo/async-primitives
 
-import {
-  Deferred,
-  ManuallyConditional,
-  Conditional,
-  LockHandle,
-} from '../types';
+import { Deferred, ManuallyConditional, Conditional } from '../types';
 import { onAbort } from './abort-hook';
 import { createDeferred } from './deferred';
-import { __NOOP_HANDLER } from './internal/utils';
+import { __NOOP_DUMMY_HANDLE } from './internal/utils';
 
-const __NOOP_DUMMY_HANDLE: LockHandle = {
-  get isActive() {
-    return false;
-  },
-  release: __NOOP_HANDLER,
-  [Symbol.dispose]: __NOOP_HANDLER,
-} as const;
+const ABORTED_ERROR = () => new Error('Conditional aborted');
+
+/**
+ * Enqueues a waiter and waits until it is resolved
+ * @param waiters The waiter queue
+ * @param signal Optional AbortSignal for cancelling the wait
+ */
+const waitForTrigger = async (
+  waiters: Deferred<void>[],
+  signal: AbortSignal | undefined
+): Promise<void> => {
+  if (signal?.aborted) {
+    throw ABORTED_ERROR();
+  }
+  const waiter = createDeferred<void>();
+  waiters.push(waiter);
+  const disposer = onAbort(signal, () => {
+    // Already dequeued by a trigger, the wait completes normally
+    const index = waiters.indexOf(waiter);
+    if (index >= 0) {
+      waiters.splice(index, 1);
+      waiter.reject(ABORTED_ERROR());
+    }
+  });
+  try {
+    await waiter.promise;
+  } finally {
+    disposer.release();
+  }
+};
+
+/**
+ * Waits until the predicate holds, re-checking it on every trigger
+ * @param waiters The waiter queue
+ * @param predicate The predicate to check
+ * @param signal Optional AbortSignal for cancelling the wait
+ */
+const waitUntilPredicate = async (
+  waiters: Deferred<void>[],
+  predicate: () => boolean,
+  signal: AbortSignal | undefined
+): Promise<void> => {
+  if (signal?.aborted) {
+    throw ABORTED_ERROR();
+  }
+  // The predicate is checked synchronously before enqueueing, so no trigger is lost
+  while (!predicate()) {
+    await waitForTrigger(waiters, signal);
+  }
+};
 
 /**
  * Creates a conditional that can be automatically triggered
@@ -34,27 +72,26 @@ export const createConditional = (): Conditional => {
     }
   };
 
-  const wait = async (signal?: AbortSignal) => {
-    if (signal?.aborted) {
-      throw new Error('Conditional aborted');
-    }
-    const waiter = createDeferred<void>();
-    waiters.push(waiter);
-    const disposer = onAbort(signal, () => {
-      waiters.splice(waiters.indexOf(waiter), 1);
-      waiter.reject(new Error('Conditional aborted'));
-    });
-    try {
-      await waiter.promise;
-    } finally {
-      disposer.release();
+  const triggerAll = () => {
+    // Resolve only the waiters at this moment
+    for (const waiter of waiters.splice(0)) {
+      waiter.resolve();
     }
+  };
+
+  const wait = async (signal?: AbortSignal) => {
+    await waitForTrigger(waiters, signal);
     return __NOOP_DUMMY_HANDLE;
   };
 
+  const waitUntil = (predicate: () => boolean, signal?: AbortSignal) =>
+    waitUntilPredicate(waiters, predicate, signal);
+
   const result: Conditional = {
     trigger,
+    triggerAll,
     wait: wait as any,
+    waitUntil,
     waiter: {
       wait,
     },
@@ -91,6 +128,14 @@ export const createManuallyConditional = (
     raised = true;
   };
 
+  const triggerAll = () => {
+    raised = false;
+    // Resolve only the waiters at this moment, without latching
+    for (const waiter of waiters.splice(0)) {
+      waiter.resolve();
+    }
+  };
+
   const drop = () => {
     raised = false;
   };
@@ -99,28 +144,21 @@ export const createManuallyConditional = (
     if (raised) {
       return __NOOP_DUMMY_HANDLE;
     }
-    if (signal?.aborted) {
-      throw new Error('Conditional aborted');
-    }
-    const waiter = createDeferred<void>();
-    waiters.push(waiter);
-    const disposer = onAbort(signal, () => {
-      waiters.splice(waiters.indexOf(waiter), 1);
-      waiter.reject(new Error('Conditional aborted'));
-    });
-    try {
-      await waiter.promise;
-    } finally {
-      disposer.release();
-    }
+    await waitForTrigger(waiters, signal);
     return __NOOP_DUMMY_HANDLE;
   };
 
+  // Ignores the latched state, otherwise a false predicate would spin while raised
+  const waitUntil = (predicate: () => boolean, signal?: AbortSignal) =>
+    waitUntilPredicate(waiters, predicate, signal);
+
   const result: ManuallyConditional = {
     trigger,
+    triggerAll,
     raise,
     drop,
     wait: wait as any,
+    waitUntil,
     waiter: {
       wait,
     },
@@ -0,0 +1,60 @@
+// async-primitives - A collection of primitive functions for asynchronous operations in TypeScript/JavaScript.
+// Copyright (c) Kouji Matsui. (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/async-primitives
+
+import { CountdownLatch } from '../types';
+import { createManuallyConditional } from './conditional';
+import { __NOOP_DUMMY_HANDLE } from './internal/utils';
+
+/**
+ * Creates a countdown latch that is released when signaled the specified times
+ * @param count The number of signals required to release the latch (must be 0 or greater)
+ * @returns A new CountdownLatch for waiting until N operations have finished
+ */
+export const createCountdownLatch = (count: number): CountdownLatch => {
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error('Countdown latch count must be 0 or greater');
+  }
+
+  let currentCount = count;
+  const completed = createManuallyConditional(currentCount === 0);
+
+  const signal = () => {
+    if (currentCount === 0) {
+      return;
+    }
+    currentCount--;
+    if (currentCount === 0) {
+      completed.raise();
+    }
+  };
+
+  const wait = async (signal?: AbortSignal) => {
+    try {
+      await completed.wait(signal);
+    } catch (error: unknown) {
+      // If the signal is aborted, throw a more descriptive error
+      if (error instanceof Error && error.message === 'Conditional aborted') {
+        error.message = 'Countdown latch aborted';
+      }
+      throw error;
+    }
+  };
+
+  const result: CountdownLatch = {
+    signal,
+    wait,
+    waiter: {
+      wait: async (signal?: AbortSignal) => {
+        await wait(signal);
+        return __NOOP_DUMMY_HANDLE;
+      },
+    },
+    get currentCount() {
+      return currentCount;
+    },
+  };
+
+  return result;
+};
@@ -3,24 +3,12 @@
 // Under MIT.
 // https://github.com/kekyo/async-primitives
 
+import { getClock } from './clock';
+
 /**
  * Defer execution of a callback to the next tick.
  * @param fn - The function to execute.
  */
-type RuntimeSetImmediate = ((callback: () => void) => unknown) | undefined;
-
-type RuntimeGlobal = typeof globalThis & {
-  setImmediate?: RuntimeSetImmediate;
-};
-
-const runtimeGlobal = globalThis as RuntimeGlobal;
-
 export const defer = (fn: () => void): void => {
-  const setImmediateHandler = runtimeGlobal.setImmediate;
-  if (typeof setImmediateHandler === 'function') {
-    setImmediateHandler(fn);
-    return;
-  }
-
-  globalThis.setTimeout(fn, 0);
+  getClock().defer(fn);
 };
@@ -3,7 +3,12 @@
 // Under MIT.
 // https://github.com/kekyo/async-primitives
 
-import { DeferredGenerator, DeferredGeneratorOptions } from '../types';
+import {
+  BroadcastDeferredGenerator,
+  DeferredGenerator,
+  DeferredGeneratorOptions,
+} from '../types';
+import { onAbort } from './abort-hook';
 import { createManuallyConditional } from './conditional';
 
 interface QueuedValue<T> {
@@ -29,15 +34,20 @@ type QueuedItem<T> = QueuedValue<T> | QueuedCompletion | QueuedError;
  * @returns A deferred generator object with an async generator and control functions
  */
 export const createDeferredGenerator = <T>(
-  options?: DeferredGeneratorOptions
+  options?: DeferredGeneratorOptions<T>
 ): DeferredGenerator<T> => {
   const maxItemReserved = options?.maxItemReserved;
+  const overflow = options?.overflow ?? 'block';
+  const onDropped = options?.onDropped;
   const signal = options?.signal;
   const queue: QueuedItem<T>[] = [];
   const arrived = createManuallyConditional();
-  const canReserve = maxItemReserved
-    ? createManuallyConditional(true)
-    : undefined;
+  // Only the blocking strategy suspends the producer
+  const canReserve =
+    maxItemReserved && overflow === 'block'
+      ? createManuallyConditional(true)
+      : undefined;
+  let droppedCount = 0;
 
   // Allocate the async generator
   const generator = (async function* () {
@@ -49,7 +59,7 @@ export const createDeferredGenerator = <T>(
         const item = queue.shift();
         // If the queue is not full, raise the signal to release the suspending operator
         if (maxItemReserved && queue.length === maxItemReserved - 1) {
-          canReserve!.raise();
+          canReserve?.raise();
         }
         // No more items, break the loop
         if (!item) {
@@ -90,6 +100,40 @@ export const createDeferredGenerator = <T>(
     }
   })();
 
+  // Count and notify the dropped value
+  const drop = (value: T) => {
+    droppedCount++;
+    onDropped?.(value);
+  };
+
+  // Apply the non-blocking overflow strategy to the full queue
+  const overflowItem = (item: QueuedItem<T>) => {
+    // Completion and error are never dropped
+    if (item.kind !== 'value') {
+      queue.push(item);
+      return;
+    }
+    switch (overflow) {
+      // Discard the yielding value
+      case 'drop-newest':
+        drop(item.value);
+        break;
+      // Discard the oldest queued value, and enqueue the yielding value
+      case 'drop-oldest': {
+        const index = queue.findIndex((queued) => queued.kind === 'value');
+        queue.push(item);
+        if (index >= 0) {
+          const oldest = queue.splice(index, 1)[0] as QueuedValue<T>;
+          drop(oldest.value);
+        }
+        break;
+      }
+      // Reject the yield
+      default:
+        throw new Error('Deferred generator queue is full');
+    }
+  };
+
   // Enqueue an item to the queue
   const enqueue = async (
     item: QueuedItem<T>,
@@ -104,13 +148,18 @@ export const createDeferredGenerator = <T>(
         }
         if (remains === maxItemReserved) {
           // Drop the signal because the queue is full
-          canReserve!.drop();
+          canReserve?.drop();
         }
         break;
       }
+      // The queue is full, apply the overflow strategy when not blocking
+      if (!canReserve) {
+        overflowItem(item);
+        break;
+      }
       // Wait for the signal to be raised, or the signal is aborted
       try {
-        await canReserve!.wait(signal);
+        await canReserve.wait(signal);
       } catch (error: unknown) {
         // If the signal is aborted, throw a more descriptive error
         if (error instanceof Error && error.message === 'Conditional aborted') {
@@ -133,5 +182,172 @@ export const createDeferredGenerator = <T>(
     // Throw an error to the generator
     throw: (error: any, signal?: AbortSignal) =>
       enqueue({ kind: 'error', error }, signal),
+    // Number of values dropped by the overflow strategy
+    get droppedCount() {
+      return droppedCount;
+    },
+  };
+};
+
+/**
+ * Internal subscriber of the broadcast deferred generator
+ */
+interface Subscriber<T> {
+  /** The deferred generator holding the subscriber queue */
+  readonly deferred: DeferredGenerator<T>;
+  /** Controller aborted when the subscriber unsubscribes */
+  readonly unsubscribed: AbortController;
+}
+
+/**
+ * Creates a new broadcast deferred generator object
+ * @param T - The type of the yielded values
+ * @param options - Optional default options for the subscriber queues
+ * @returns A broadcast deferred generator object with subscription and control functions
+ */
+export const createBroadcastDeferredGenerator = <T>(
+  options?: DeferredGeneratorOptions<T>
+): BroadcastDeferredGenerator<T> => {
+  const subscribers: Subscriber<T>[] = [];
+  let terminal: QueuedCompletion | QueuedError | undefined;
+
+  const unsubscribe = (subscriber: Subscriber<T>) => {
+    const index = subscribers.indexOf(subscriber);
+    if (index >= 0) {
+      subscribers.splice(index, 1);
+      // Release the producer waiting for this subscriber queue
+      subscriber.unsubscribed.abort();
+    }
+  };
+
+  const subscribe = (
+    subscribeOptions?: DeferredGeneratorOptions<T>
+  ): AsyncGenerator<T, void, unknown> => {
+    const subscriber: Subscriber<T> = {
+      deferred: createDeferredGenerator<T>({ ...options, ...subscribeOptions }),
+      unsubscribed: new AbortController(),
+    };
+    const generator = subscriber.deferred.generator;
+
+    if (terminal) {
+      // Already finished, the subscriber finishes immediately
+      void (terminal.kind === 'completed'
+        ? subscriber.deferred.return()
+        : subscriber.deferred.throw(terminal.error));
+    } else {
+      subscribers.push(subscriber);
+    }
+
+    // Wrap the generator to detect the unsubscription even when it is not started
+    const subscription: AsyncGenerator<T, void, unknown> = {
+      next: async (...args) => {
+        try {
+          const result = await generator.next(...args);
+          if (result.done) {
+            unsubscribe(subscriber);
+          }
+          return result;
+        } catch (error: unknown) {
+          unsubscribe(subscriber);
+          throw error;
+        }
+      },
+      return: (value) => {
+        unsubscribe(subscriber);
+        return generator.return(value);
+      },
+      throw: (error) => {
+        unsubscribe(subscriber);
+        return generator.throw(error);
+      },
+      [Symbol.asyncIterator]: () => subscription,
+      [Symbol.asyncDispose]: async () => {
+        await subscription.return();
+      },
+    };
+    return subscription;
+  };
+
+  // Enqueue an item to a subscriber, ignoring the subscriber unsubscribed meanwhile
+  const enqueueTo = async (
+    subscriber: Subscriber<T>,
+    enqueue: (signal: AbortSignal) => Promise<void>,
+    signal: AbortSignal | undefined
+  ) => {
+    const linked = new AbortController();
+    const producerAbort = onAbort(signal, () => linked.abort());
+    const subscriberAbort = onAbort(subscriber.unsubscribed.signal, () =>
+      linked.abort()
+    );
+    try {
+      await enqueue(linked.signal);
+    } catch (error: unknown) {
+      // Unsubscribed subscribers never block the producer
+      if (!subscriber.unsubscribed.signal.aborted) {
+        throw error;
+      }
+    } finally {
+      producerAbort.release();
+      subscriberAbort.release();
+    }
+  };
+
+  // Broadcast an item to all current subscribers
+  const broadcast = async (
+    enqueue: (
+      deferred: DeferredGenerator<T>,
+      signal: AbortSignal
+    ) => Promise<void>,
+    signal: AbortSignal | undefined
+  ) => {
+    if (signal?.aborted) {
+      throw new Error('Deferred generator aborted');
+    }
+    await Promise.all(
+      subscribers
+        .slice()
+        .map((subscriber) =>
+          enqueueTo(
+            subscriber,
+            (linkedSignal) => enqueue(subscriber.deferred, linkedSignal),
+            signal
+          )
+        )
+    );
+  };
+
+  // Finish all subscribers and refuse further subscriptions
+  const finish = (
+    item: QueuedCompletion | QueuedError,
+    signal: AbortSignal | undefined
+  ) => {
+    terminal = item;
+    return broadcast(
+      (deferred, linkedSignal) =>
+        item.kind === 'completed'
+          ? deferred.return(linkedSignal)
+          : deferred.throw(item.error, linkedSignal),
+      signal
+    );
+  };
+
+  return {
+    // Subscribe to the values
+    subscribe,
+    // Yield a value to all subscribers
+    yield: (value: T, signal?: AbortSignal) =>
+      broadcast(
+        (deferred, linkedSignal) => deferred.yield(value, linkedSignal),
+        signal
+      ),
+    // Complete all subscribers (equivalent to return)
+    return: (signal?: AbortSignal) => finish({ kind: 'completed' }, signal),
+    // Throw an error to all subscribers
+    throw: (error: any, signal?: AbortSignal) =>
+      finish({ kind: 'error', error }, signal),
+    // Number of active subscribers
+    get subscriberCount() {
+      return subscribers.length;
+    },
   };
 };
@@ -4,6 +4,7 @@
 // https://github.com/kekyo/async-primitives
 
 import { onAbort } from './abort-hook';
+import { getClock } from './clock';
 
 /**
  * Helper function to create a delay
@@ -21,11 +22,11 @@ export const delay = (msec: number, signal?: AbortSignal): Promise<void> => {
     // Require aborting handler
     return new Promise<void>((resolve, reject) => {
       const abortHandle = onAbort(signal, () => {
-        clearTimeout(timeoutId);
+        timer.release();
         reject(new Error('Delay was aborted'));
       });
 
-      const timeoutId = setTimeout(() => {
+      const timer = getClock().setTimer(() => {
         abortHandle.release();
         resolve();
       }, msec);
@@ -33,7 +34,7 @@ export const delay = (msec: number, signal?: AbortSignal): Promise<void> => {
   } else {
     // Without aborting handler
     return new Promise<void>((resolve) => {
-      setTimeout(resolve, msec);
+      getClock().setTimer(resolve, msec);
     });
   }
 };
@@ -0,0 +1,47 @@
+// async-primitives - A collection of primitive functions for asynchronous operations in TypeScript/JavaScript.
+// Copyright (c) Kouji Matsui. (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/async-primitives
+
+/**
+ * Error thrown when an operation did not complete within the specified time
+ */
+export class TimeoutError extends Error {
+  /**
+   * Constructor
+   * @param message Error message
+   */
+  constructor(message?: string) {
+    super(message ?? 'Operation timed out');
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Error thrown when sending to or receiving from a closed channel
+ */
+export class ChannelClosedError extends Error {
+  /**
+   * Constructor
+   * @param message Error message
+   */
+  constructor(message?: string) {
+    super(message ?? 'Channel is closed');
+    this.name = 'ChannelClosedError';
+  }
+}
+
+/**
+ * Error thrown when all retry attempts failed
+ */
+export class RetryError extends AggregateError {
+  /**
+   * Constructor
+   * @param errors The failures of each attempt
+   * @param message Error message
+   */
+  constructor(errors: readonly unknown[], message?: string) {
+    super(errors, message ?? `Retry failed after ${errors.length} attempts`);
+    this.name = 'RetryError';
+  }
+}
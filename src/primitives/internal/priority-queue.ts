@@ -0,0 +1,115 @@
+// async-primitives - A collection of primitive functions for asynchronous operations in TypeScript/JavaScript.
+// Copyright (c) Kouji Matsui. (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/async-primitives
+
+import { LockPriority } from '../../types';
+import { getClock } from '../clock';
+
+/**
+ * Internal queue item ordered by priority
+ */
+export interface PriorityQueueItem {
+  /** Normalized priority, larger value is served first */
+  readonly priority: number;
+  /** Timestamp in milliseconds when the item was enqueued */
+  readonly enqueuedAt: number;
+}
+
+/**
+ * Normalizes the priority into a number
+ * @param priority The priority to normalize (Default: 'normal')
+ * @returns The normalized priority, larger value is served first
+ */
+export const normalizePriority = (
+  priority: LockPriority | undefined
+): number => {
+  switch (priority) {
+    case undefined:
+    case 'normal':
+      return 0;
+    case 'high':
+      return 1;
+    case 'low':
+      return -1;
+    default:
+      return priority;
+  }
+};
+
+/**
+ * Inserts an item into the queue keeping descending priority order
+ * @param queue The queue to insert into
+ * @param item The item to insert
+ * @remarks Items with the same priority are kept in FIFO order.
+ */
+export const enqueueByPriority = <T extends PriorityQueueItem>(
+  queue: T[],
+  item: T
+): void => {
+  let index = queue.length;
+  while (index > 0 && queue[index - 1]!.priority < item.priority) {
+    index--;
+  }
+  if (index === queue.length) {
+    queue.push(item);
+  } else {
+    queue.splice(index, 0, item);
+  }
+};
+
+/**
+ * Finds the index of the next item to be served
+ * @param queue The queue ordered by `enqueueByPriority()`
+ * @param agingMs Optional interval in milliseconds to raise the priority of waiting items by one
+ * @returns The index of the next item, or 0 if the queue is empty
+ */
+export const findNextIndex = <T extends PriorityQueueItem>(
+  queue: readonly T[],
+  agingMs: number | undefined
+): number => {
+  if (agingMs === undefined || agingMs <= 0 || queue.length <= 1) {
+    return 0;
+  }
+
+  const now = getClock().now();
+  let bestIndex = 0;
+  let bestPriority = -Infinity;
+  let bestEnqueuedAt = Infinity;
+
+  for (let index = 0; index < queue.length; index++) {
+    const item = queue[index]!;
+    const effectivePriority =
+      item.priority + Math.floor((now - item.enqueuedAt) / agingMs);
+    if (
+      effectivePriority > bestPriority ||
+      (effectivePriority === bestPriority && item.enqueuedAt < bestEnqueuedAt)
+    ) {
+      bestIndex = index;
+      bestPriority = effectivePriority;
+      bestEnqueuedAt = item.enqueuedAt;
+    }
+  }
+
+  return bestIndex;
+};
+
+/**
+ * Counts the items with the specified priority
+ * @param queue The queue to count
+ * @param priority The priority to count
+ * @returns Number of items with the priority
+ */
+export const countByPriority = <T extends PriorityQueueItem>(
+  queue: readonly T[],
+  priority: LockPriority
+): number => {
+  const normalizedPriority = normalizePriority(priority);
+  let count = 0;
+  for (const item of queue) {
+    if (item.priority === normalizedPriority) {
+      count++;
+    }
+  }
+  return count;
+};
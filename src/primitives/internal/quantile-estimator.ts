@@ -0,0 +1,128 @@
+// async-primitives - A collection of primitive functions for asynchronous operations in TypeScript/JavaScript.
+// Copyright (c) Kouji Matsui. (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/async-primitives
+
+/**
+ * Streaming estimator of a single quantile
+ */
+export interface QuantileEstimator {
+  /** Observe the value */
+  readonly add: (value: number) => void;
+  /** Current estimate, NaN when no value is observed */
+  readonly estimate: () => number;
+}
+
+/**
+ * Creates a streaming estimator of the quantile with the P-square algorithm
+ * @param quantile The quantile to estimate, between 0 and 1
+ * @returns A new QuantileEstimator using constant memory
+ * @remarks The estimate is exact while at most five values are observed,
+ * and approximated by five markers adjusted with piecewise-parabolic interpolation after that.
+ * See Jain and Chlamtac, "The P² algorithm for dynamic calculation of quantiles and histograms without storing observations" (1985).
+ */
+export const createQuantileEstimator = (
+  quantile: number
+): QuantileEstimator => {
+  // Marker heights, actual positions and desired positions
+  const heights: number[] = [];
+  const positions = [0, 1, 2, 3, 4];
+  const desired = [0, 2 * quantile, 4 * quantile, 2 + 2 * quantile, 4];
+  const increments = [0, quantile / 2, quantile, (1 + quantile) / 2, 1];
+
+  const parabolic = (index: number, direction: number): number => {
+    const q = heights;
+    const n = positions;
+    return (
+      q[index]! +
+      (direction / (n[index + 1]! - n[index - 1]!)) *
+        (((n[index]! - n[index - 1]! + direction) *
+          (q[index + 1]! - q[index]!)) /
+          (n[index + 1]! - n[index]!) +
+          ((n[index + 1]! - n[index]! - direction) *
+            (q[index]! - q[index - 1]!)) /
+            (n[index]! - n[index - 1]!))
+    );
+  };
+
+  const linear = (index: number, direction: number): number =>
+    heights[index]! +
+    (direction * (heights[index + direction]! - heights[index]!)) /
+      (positions[index + direction]! - positions[index]!);
+
+  const add = (value: number): void => {
+    // Collect the initial markers
+    if (heights.length < 5) {
+      let index = heights.length;
+      while (index > 0 && heights[index - 1]! > value) {
+        index--;
+      }
+      heights.splice(index, 0, value);
+      return;
+    }
+
+    // Find the cell containing the value, extending the extreme markers
+    let cell: number;
+    if (value < heights[0]!) {
+      heights[0] = value;
+      cell = 0;
+    } else if (value >= heights[4]!) {
+      heights[4] = value;
+      cell = 3;
+    } else {
+      cell = 0;
+      while (value >= heights[cell + 1]!) {
+        cell++;
+      }
+    }
+
+    for (let index = cell + 1; index < 5; index++) {
+      positions[index]!++;
+    }
+    for (let index = 0; index < 5; index++) {
+      desired[index]! += increments[index]!;
+    }
+
+    // Adjust the middle markers toward the desired positions
+    for (let index = 1; index <= 3; index++) {
+      const delta = desired[index]! - positions[index]!;
+      if (
+        (delta >= 1 && positions[index + 1]! - positions[index]! > 1) ||
+        (delta <= -1 && positions[index - 1]! - positions[index]! < -1)
+      ) {
+        const direction = Math.sign(delta);
+        const height = parabolic(index, direction);
+        heights[index] =
+          heights[index - 1]! < height && height < heights[index + 1]!
+            ? height
+            : linear(index, direction);
+        positions[index]! += direction;
+      }
+    }
+  };
+
+  const estimate = (): number => {
+    if (heights.length === 0) {
+      return NaN;
+    }
+    // Up to five values are observed
+    if (positions[4]! < 5) {
+      // Exact, interpolated between the closest ranks
+      const rank = quantile * (heights.length - 1);
+      const lower = Math.floor(rank);
+      const upper = Math.ceil(rank);
+      return (
+        heights[lower]! + (heights[upper]! - heights[lower]!) * (rank - lower)
+      );
+    }
+    if (quantile <= 0) {
+      return heights[0]!;
+    }
+    if (quantile >= 1) {
+      return heights[4]!;
+    }
+    return heights[2]!;
+  };
+
+  return { add, estimate };
+};
@@ -3,7 +3,7 @@
 // Under MIT.
 // https://github.com/kekyo/async-primitives
 
-import { Releasable } from '../../types';
+import { LockHandle, Releasable } from '../../types';
 
 /**
  * A no-op Releasable object that does nothing when released or disposed
@@ -13,3 +13,22 @@ export const __NOOP_RELEASABLE: Releasable = {
   release: __NOOP_HANDLER,
   [Symbol.dispose]: __NOOP_HANDLER,
 } as const;
+
+/**
+ * A dummy LockHandle that is never active, for waiters without any lock
+ */
+export const __NOOP_DUMMY_HANDLE: LockHandle = {
+  get isActive() {
+    return false;
+  },
+  release: __NOOP_HANDLER,
+  [Symbol.dispose]: __NOOP_HANDLER,
+} as const;
+
+/**
+ * Determines whether the value is an AbortSignal
+ * @param value The value to check
+ * @returns True if the value is an AbortSignal
+ */
+export const isAbortSignal = (value: unknown): value is AbortSignal =>
+  typeof AbortSignal !== 'undefined' && value instanceof AbortSignal;
@@ -3,14 +3,31 @@
 // Under MIT.
 // https://github.com/kekyo/async-primitives
 
-import { Mutex, LockHandle } from '../types';
+import {
+  Mutex,
+  LockHandle,
+  LockOptions,
+  LockPriority,
+  MutexOptions,
+  Releasable,
+} from '../types';
 import { onAbort } from './abort-hook';
+import { getClock } from './clock';
 import { defer } from './defer';
+import { TimeoutError } from './errors';
+import { isAbortSignal } from './internal/utils';
+import {
+  PriorityQueueItem,
+  countByPriority,
+  enqueueByPriority,
+  findNextIndex,
+  normalizePriority,
+} from './internal/priority-queue';
 
 /**
  * Internal queue item for lock requests
  */
-interface QueueItem {
+interface QueueItem extends PriorityQueueItem {
   /** Promise resolver for the lock acquisition */
   resolve: (handle: LockHandle) => void;
   /** Promise rejecter for the lock acquisition */
@@ -20,6 +37,7 @@ interface QueueItem {
 }
 
 const ABORTED_ERROR = () => new Error('Lock acquisition was aborted');
+const TIMEOUT_ERROR = () => new TimeoutError('Lock acquisition timed out');
 
 /**
  * Creates a new LockHandle instance
@@ -48,10 +66,16 @@ const createLockHandle = (releaseCallback: () => void): LockHandle => {
 
 /**
  * Creates a new Mutex instance
- * @param maxConsecutiveCalls - The maximum number of consecutive calls to the lockAsync method before yielding control to the next item in the queue
+ * @param maxConsecutiveCallsOrOptions - The maximum number of consecutive calls to the lockAsync method before yielding control to the next item in the queue, or options for the Mutex
  * @returns A new Mutex for promise-based mutex operations
  */
-export const createMutex = (maxConsecutiveCalls: number = 20): Mutex => {
+export const createMutex = (
+  maxConsecutiveCallsOrOptions: number | MutexOptions = 20
+): Mutex => {
+  const { maxConsecutiveCalls = 20, priorityAgingMs } =
+    typeof maxConsecutiveCallsOrOptions === 'number'
+      ? { maxConsecutiveCalls: maxConsecutiveCallsOrOptions }
+      : maxConsecutiveCallsOrOptions;
   let isLocked = false;
   const queue: QueueItem[] = [];
   let count = 0; // Consecutive execution counter
@@ -61,7 +85,8 @@ export const createMutex = (maxConsecutiveCalls: number = 20): Mutex => {
       return;
     }
 
-    const item = queue.shift()!;
+    // Pick the highest priority item, taking aging into account
+    const item = queue.splice(findNextIndex(queue, priorityAgingMs), 1)[0]!;
 
     // Check if the request was aborted
     if (item.signal?.aborted) {
@@ -108,45 +133,81 @@ export const createMutex = (maxConsecutiveCalls: number = 20): Mutex => {
     }
   };
 
-  const lock = async (signal?: AbortSignal): Promise<LockHandle> => {
-    if (signal) {
+  const tryLock = (): LockHandle | undefined => {
+    // Do not overtake pending requests, keep FIFO ordering
+    if (isLocked || queue.length >= 1) {
+      return undefined;
+    }
+
+    isLocked = true;
+    return createLockHandle(releaseLock);
+  };
+
+  const lock = async (
+    signalOrOptions?: AbortSignal | LockOptions
+  ): Promise<LockHandle> => {
+    const options: LockOptions = isAbortSignal(signalOrOptions)
+      ? { signal: signalOrOptions }
+      : (signalOrOptions ?? {});
+    const { signal, timeoutMs } = options;
+    const priority = normalizePriority(options.priority);
+    const enqueuedAt = getClock().now();
+
+    if (signal || timeoutMs !== undefined) {
       // Check if already aborted
-      if (signal.aborted) {
+      if (signal?.aborted) {
         throw ABORTED_ERROR();
       }
 
       return new Promise<LockHandle>((resolve, reject) => {
-        // Handle case with AbortSignal
+        // Handle case with AbortSignal or timeout
         const queueItem: QueueItem = {
           resolve: undefined!,
           reject: undefined!,
           signal,
+          priority,
+          enqueuedAt,
         };
 
+        let timer: Releasable | undefined;
+
         const abortHandle = onAbort(signal, () => {
+          timer?.release();
           removeFromQueue(queueItem);
           reject(ABORTED_ERROR());
         });
 
+        if (timeoutMs !== undefined) {
+          timer = getClock().setTimer(() => {
+            abortHandle.release();
+            removeFromQueue(queueItem);
+            reject(TIMEOUT_ERROR());
+          }, timeoutMs);
+        }
+
         // Wrap to clean up
         queueItem.resolve = (handle: LockHandle) => {
           abortHandle.release();
+          timer?.release();
           resolve(handle);
         };
         queueItem.reject = (error: Error) => {
           abortHandle.release();
+          timer?.release();
           reject(error);
         };
 
-        queue.push(queueItem);
+        enqueueByPriority(queue, queueItem);
         processQueue();
       });
     } else {
       return new Promise<LockHandle>((resolve, reject) => {
         // Handle case without AbortSignal
-        queue.push({
+        enqueueByPriority(queue, {
           resolve,
           reject,
+          priority,
+          enqueuedAt,
         });
         processQueue();
       });
@@ -155,6 +216,7 @@ export const createMutex = (maxConsecutiveCalls: number = 20): Mutex => {
 
   const result: Mutex = {
     lock,
+    tryLock,
     waiter: {
       wait: lock,
     },
@@ -164,6 +226,8 @@ export const createMutex = (maxConsecutiveCalls: number = 20): Mutex => {
     get pendingCount() {
       return queue.length;
     },
+    getPendingCount: (priority: LockPriority) =>
+      countByPriority(queue, priority),
   };
 
   return result;
@@ -0,0 +1,314 @@
+// async-primitives - A collection of primitive functions for asynchronous operations in TypeScript/JavaScript.
+// Copyright (c) Kouji Matsui. (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/async-primitives
+
+import {
+  LockHandle,
+  RateLimiter,
+  RateLimiterOptions,
+  Releasable,
+} from '../types';
+import { onAbort } from './abort-hook';
+import { getClock } from './clock';
+
+/**
+ * Internal queue item for rate limiter acquisition requests
+ */
+interface QueueItem {
+  /** Promise resolver for the acquisition */
+  resolve: (handle: LockHandle) => void;
+  /** Promise rejecter for the acquisition */
+  reject: (error: Error) => void;
+  /** Number of tokens to acquire */
+  readonly tokens: number;
+}
+
+/**
+ * Tokens consumed at the time, for the sliding window
+ */
+interface WindowEntry {
+  /** Time in milliseconds when the tokens were consumed */
+  readonly at: number;
+  /** Number of consumed tokens */
+  readonly tokens: number;
+}
+
+/**
+ * Internal algorithm of the rate limiter
+ */
+interface RateLimiterAlgorithm {
+  /** Number of tokens available at the time */
+  readonly available: (now: number) => number;
+  /** Consume the tokens at the time */
+  readonly consume: (now: number, tokens: number) => void;
+  /** Milliseconds to wait until the tokens become available */
+  readonly waitFor: (now: number, tokens: number) => number;
+}
+
+const ABORTED_ERROR = () => new Error('Rate limiter acquisition was aborted');
+const INVALID_TOKENS_ERROR = () =>
+  new Error('Rate limiter tokens must be greater than 0');
+const EXCEEDED_TOKENS_ERROR = () =>
+  new Error('Rate limiter tokens exceed the capacity');
+
+/**
+ * Creates a new rate limiter handle
+ * @returns A LockHandle object, releasing does not return the consumed tokens
+ */
+const createRateLimiterHandle = (): LockHandle => {
+  let isActive = true;
+
+  const release = (): void => {
+    isActive = false;
+  };
+
+  return {
+    get isActive() {
+      return isActive;
+    },
+    release,
+    [Symbol.dispose]: release,
+  };
+};
+
+/**
+ * Creates the token bucket algorithm
+ * @param rate Tokens refilled per millisecond
+ * @param capacity Maximum number of tokens stored in the bucket
+ * @param now Current time in milliseconds
+ */
+const createTokenBucket = (
+  rate: number,
+  capacity: number,
+  now: number
+): RateLimiterAlgorithm => {
+  // Starts with the full bucket
+  let tokens = capacity;
+  let lastRefill = now;
+
+  const refill = (now: number) => {
+    if (now > lastRefill) {
+      tokens = Math.min(capacity, tokens + (now - lastRefill) * rate);
+      lastRefill = now;
+    }
+  };
+
+  return {
+    available: (now) => {
+      refill(now);
+      return tokens;
+    },
+    consume: (now, consumed) => {
+      refill(now);
+      tokens -= consumed;
+    },
+    waitFor: (now, required) => {
+      refill(now);
+      return Math.max(Math.ceil((required - tokens) / rate), 1);
+    },
+  };
+};
+
+/**
+ * Creates the sliding window algorithm
+ * @param limit Maximum number of tokens within the window
+ * @param intervalMs Window length in milliseconds
+ */
+const createSlidingWindow = (
+  limit: number,
+  intervalMs: number
+): RateLimiterAlgorithm => {
+  const entries: WindowEntry[] = [];
+  let used = 0;
+
+  // Remove the entries out of the window
+  const prune = (now: number) => {
+    while (entries.length >= 1 && entries[0]!.at <= now - intervalMs) {
+      used -= entries.shift()!.tokens;
+    }
+  };
+
+  return {
+    available: (now) => {
+      prune(now);
+      return limit - used;
+    },
+    consume: (now, tokens) => {
+      prune(now);
+      entries.push({ at: now, tokens });
+      used += tokens;
+    },
+    waitFor: (now, required) => {
+      prune(now);
+      // Find the oldest entry whose expiration frees enough tokens
+      let remaining = used;
+      for (const entry of entries) {
+        remaining -= entry.tokens;
+        if (limit - remaining >= required) {
+          return Math.max(entry.at + intervalMs - now, 1);
+        }
+      }
+      return 1;
+    },
+  };
+};
+
+/**
+ * Creates a new RateLimiter instance for limiting throughput
+ * @param options Options for the RateLimiter
+ * @returns A new RateLimiter for limiting the number of acquisitions per interval
+ */
+export const createRateLimiter = (options: RateLimiterOptions): RateLimiter => {
+  const { tokensPerInterval, intervalMs } = options;
+  const mode = options.mode ?? 'token-bucket';
+
+  if (!(tokensPerInterval > 0)) {
+    throw new Error('Rate limiter tokensPerInterval must be greater than 0');
+  }
+  if (!(intervalMs > 0)) {
+    throw new Error('Rate limiter intervalMs must be greater than 0');
+  }
+
+  const capacity =
+    mode === 'sliding-window'
+      ? tokensPerInterval
+      : (options.burst ?? tokensPerInterval);
+  if (!(capacity > 0)) {
+    throw new Error('Rate limiter burst must be greater than 0');
+  }
+
+  const algorithm =
+    mode === 'sliding-window'
+      ? createSlidingWindow(tokensPerInterval, intervalMs)
+      : createTokenBucket(
+          tokensPerInterval / intervalMs,
+          capacity,
+          getClock().now()
+        );
+
+  const queue: QueueItem[] = [];
+  let timer: Releasable | undefined;
+
+  const processQueue = (): void => {
+    timer?.release();
+    timer = undefined;
+
+    // Serve the head of the queue in FIFO order
+    while (queue.length >= 1) {
+      const item = queue[0]!;
+      const now = getClock().now();
+      if (algorithm.available(now) < item.tokens) {
+        // Wait until the head can be served
+        timer = getClock().setTimer(
+          processQueue,
+          algorithm.waitFor(now, item.tokens)
+        );
+        return;
+      }
+      queue.shift();
+      algorithm.consume(now, item.tokens);
+      item.resolve(createRateLimiterHandle());
+    }
+  };
+
+  const removeFromQueue = (item: QueueItem): void => {
+    const index = queue.indexOf(item);
+    if (index !== -1) {
+      queue.splice(index, 1);
+    }
+  };
+
+  const validateTokens = (tokens: number): void => {
+    if (!(tokens > 0)) {
+      throw INVALID_TOKENS_ERROR();
+    }
+    if (tokens > capacity) {
+      throw EXCEEDED_TOKENS_ERROR();
+    }
+  };
+
+  const tryAcquire = (tokens: number = 1): LockHandle | undefined => {
+    validateTokens(tokens);
+
+    // Do not overtake pending requests, keep FIFO ordering
+    const now = getClock().now();
+    if (queue.length >= 1 || algorithm.available(now) < tokens) {
+      return undefined;
+    }
+
+    algorithm.consume(now, tokens);
+    return createRateLimiterHandle();
+  };
+
+  const acquire = async (
+    tokensOrSignal?: number | AbortSignal,
+    maybeSignal?: AbortSignal
+  ): Promise<LockHandle> => {
+    const tokens = typeof tokensOrSignal === 'number' ? tokensOrSignal : 1;
+    const signal =
+      typeof tokensOrSignal === 'number' ? maybeSignal : tokensOrSignal;
+
+    validateTokens(tokens);
+
+    // Check if already aborted
+    if (signal?.aborted) {
+      throw ABORTED_ERROR();
+    }
+
+    // Fast path: the tokens are available and no one is waiting
+    const handle = tryAcquire(tokens);
+    if (handle) {
+      return handle;
+    }
+
+    return new Promise<LockHandle>((resolve, reject) => {
+      const queueItem: QueueItem = {
+        resolve: undefined!,
+        reject: undefined!,
+        tokens,
+      };
+
+      const abortHandle = onAbort(signal, () => {
+        const isHead = queue[0] === queueItem;
+        removeFromQueue(queueItem);
+        reject(ABORTED_ERROR());
+        // The next item may be served now
+        if (isHead) {
+          processQueue();
+        }
+      });
+
+      // Wrap to clean up
+      queueItem.resolve = (handle: LockHandle) => {
+        abortHandle.release();
+        resolve(handle);
+      };
+      queueItem.reject = (error: Error) => {
+        abortHandle.release();
+        reject(error);
+      };
+
+      queue.push(queueItem);
+      if (queue.length === 1) {
+        processQueue();
+      }
+    });
+  };
+
+  const result: RateLimiter = {
+    acquire,
+    tryAcquire,
+    waiter: {
+      wait: acquire,
+    },
+    get availableTokens() {
+      return Math.max(algorithm.available(getClock().now()), 0);
+    },
+    get pendingCount() {
+      return queue.length;
+    },
+  };
+
+  return result;
+};
@@ -4,10 +4,12 @@
 // https://github.com/kekyo/async-primitives
 
 import {
+  DowngradableLockHandle,
   LockHandle,
   ReaderWriterLock,
   ReaderWriterLockOptions,
   ReaderWriterLockPolicy,
+  UpgradeableLockHandle,
   Waiter,
 } from '../types';
 import { onAbort } from './abort-hook';
@@ -25,12 +27,24 @@ interface ReadQueueItem {
   signal?: AbortSignal | undefined;
 }
 
+/**
+ * Internal queue item for upgradeable read lock requests
+ */
+interface UpgradeableReadQueueItem {
+  /** Promise resolver for the upgradeable read lock acquisition */
+  resolve: (handle: UpgradeableLockHandle) => void;
+  /** Promise rejecter for the upgradeable read lock acquisition */
+  reject: (error: Error) => void;
+  /** Optional AbortSignal for cancelling the request */
+  signal?: AbortSignal | undefined;
+}
+
 /**
  * Internal queue item for write lock requests
  */
 interface WriteQueueItem {
   /** Promise resolver for the write lock acquisition */
-  resolve: (handle: LockHandle) => void;
+  resolve: (handle: DowngradableLockHandle) => void;
   /** Promise rejecter for the write lock acquisition */
   reject: (error: Error) => void;
   /** Optional AbortSignal for cancelling the request */
@@ -38,6 +52,11 @@ interface WriteQueueItem {
 }
 
 const ABORTED_ERROR = () => new Error('Lock acquisition was aborted');
+const INACTIVE_HANDLE_ERROR = () => new Error('Lock handle is not active');
+const ALREADY_UPGRADED_ERROR = () =>
+  new Error('Upgradeable read lock is already upgraded');
+const UPGRADE_RELEASED_ERROR = () =>
+  new Error('Upgradeable read lock was released before the upgrade');
 
 /**
  * Creates a new ReadLockHandle instance
@@ -67,9 +86,51 @@ const createReadLockHandle = (releaseCallback: () => void): LockHandle => {
 /**
  * Creates a new WriteLockHandle instance
  * @param releaseCallback Callback function to release the write lock
- * @returns A WriteLockHandle object with release and dispose functionality
+ * @param downgradeCallback Callback function to convert the write lock into a read lock
+ * @returns A WriteLockHandle object with release, downgrade and dispose functionality
+ */
+const createWriteLockHandle = (
+  releaseCallback: () => void,
+  downgradeCallback: () => LockHandle
+): DowngradableLockHandle => {
+  let isActive = true;
+
+  const release = (): void => {
+    if (!isActive) {
+      return;
+    }
+    isActive = false;
+    releaseCallback();
+  };
+
+  const downgrade = (): LockHandle => {
+    if (!isActive) {
+      throw INACTIVE_HANDLE_ERROR();
+    }
+    isActive = false;
+    return downgradeCallback();
+  };
+
+  return {
+    get isActive() {
+      return isActive;
+    },
+    release,
+    downgrade,
+    [Symbol.dispose]: release,
+  };
+};
+
+/**
+ * Creates a new UpgradeableReadLockHandle instance
+ * @param releaseCallback Callback function to release the upgradeable read lock
+ * @param upgradeCallback Callback function to upgrade to the write lock
+ * @returns A UpgradeableReadLockHandle object with release, upgrade and dispose functionality
  */
-const createWriteLockHandle = (releaseCallback: () => void): LockHandle => {
+const createUpgradeableReadLockHandle = (
+  releaseCallback: () => void,
+  upgradeCallback: (signal?: AbortSignal) => Promise<DowngradableLockHandle>
+): UpgradeableLockHandle => {
   let isActive = true;
 
   const release = (): void => {
@@ -80,11 +141,21 @@ const createWriteLockHandle = (releaseCallback: () => void): LockHandle => {
     releaseCallback();
   };
 
+  const upgrade = async (
+    signal?: AbortSignal
+  ): Promise<DowngradableLockHandle> => {
+    if (!isActive) {
+      throw INACTIVE_HANDLE_ERROR();
+    }
+    return upgradeCallback(signal);
+  };
+
   return {
     get isActive() {
       return isActive;
     },
     release,
+    upgrade,
     [Symbol.dispose]: release,
   };
 };
@@ -127,14 +198,34 @@ export function createReaderWriterLock(
   }
   let currentReaders = 0;
   let hasWriter = false;
+  let hasUpgradeableReader = false;
+  // Identifies the write lock acquired by the current upgradeable reader
+  let upgradedToken: object | undefined;
+  let pendingUpgrade: WriteQueueItem | undefined;
   const readQueue: ReadQueueItem[] = [];
+  const upgradeableReadQueue: UpgradeableReadQueueItem[] = [];
   const writeQueue: WriteQueueItem[] = [];
   let consecutiveCallCount = 0;
 
   const processQueues = (): void => {
+    // A pending upgrade blocks every other request until the readers are drained
+    if (pendingUpgrade) {
+      if (currentReaders === 0) {
+        const item = pendingUpgrade;
+        pendingUpgrade = undefined;
+        item.resolve(acquireUpgradedWriteLock());
+      }
+      return;
+    }
+
     if (policy === 'write-preferring') {
       // Write-preferring policy: process writers first
-      if (!hasWriter && currentReaders === 0 && writeQueue.length > 0) {
+      if (
+        !hasWriter &&
+        !hasUpgradeableReader &&
+        currentReaders === 0 &&
+        writeQueue.length > 0
+      ) {
         const item = writeQueue.shift()!;
 
         // Check if the request was aborted
@@ -149,7 +240,10 @@ export function createReaderWriterLock(
         hasWriter = true;
 
         // Continue to awaiter with writeLockHandle
-        const writeLockHandle = createWriteLockHandle(releaseWriteLock);
+        const writeLockHandle = createWriteLockHandle(
+          releaseWriteLock,
+          downgradeWriteLock
+        );
         item.resolve(writeLockHandle);
       }
       // Process readers only if no writer is active and no writers are waiting
@@ -200,7 +294,12 @@ export function createReaderWriterLock(
         }
       }
       // Process writer only if no readers are active
-      else if (!hasWriter && currentReaders === 0 && writeQueue.length > 0) {
+      else if (
+        !hasWriter &&
+        !hasUpgradeableReader &&
+        currentReaders === 0 &&
+        writeQueue.length > 0
+      ) {
         const item = writeQueue.shift()!;
 
         // Check if the request was aborted
@@ -215,10 +314,34 @@ export function createReaderWriterLock(
         hasWriter = true;
 
         // Continue to awaiter with writeLockHandle
-        const writeLockHandle = createWriteLockHandle(releaseWriteLock);
+        const writeLockHandle = createWriteLockHandle(
+          releaseWriteLock,
+          downgradeWriteLock
+        );
         item.resolve(writeLockHandle);
       }
     }
+
+    // Process an upgradeable reader, it can coexist with plain readers
+    if (
+      !hasWriter &&
+      !hasUpgradeableReader &&
+      (policy === 'read-preferring' || writeQueue.length === 0)
+    ) {
+      while (upgradeableReadQueue.length > 0) {
+        const item = upgradeableReadQueue.shift()!;
+
+        // Check if the request was aborted
+        if (item.signal?.aborted) {
+          item.reject(ABORTED_ERROR());
+          continue;
+        }
+
+        // Acquire upgradeable read lock
+        item.resolve(acquireUpgradeableReadLock());
+        break;
+      }
+    }
   };
 
   const scheduleNextProcess = (): void => {
@@ -251,6 +374,111 @@ export function createReaderWriterLock(
     }
   };
 
+  const downgradeWriteLock = (): LockHandle => {
+    // Become a reader before releasing the writer, so no other writer can get in
+    currentReaders++;
+    hasWriter = false;
+    scheduleNextProcess();
+    return createReadLockHandle(releaseReadLock);
+  };
+
+  const acquireUpgradedWriteLock = (): DowngradableLockHandle => {
+    const token = {};
+    upgradedToken = token;
+    hasWriter = true;
+
+    const releaseUpgradedWriteLock = (): void => {
+      // Ignore if the upgradeable read lock has already been released
+      if (upgradedToken === token) {
+        upgradedToken = undefined;
+        hasWriter = false;
+        scheduleNextProcess();
+      }
+    };
+
+    return createWriteLockHandle(releaseUpgradedWriteLock, () => {
+      currentReaders++;
+      releaseUpgradedWriteLock();
+      return createReadLockHandle(releaseReadLock);
+    });
+  };
+
+  const upgradeToWriteLock = async (
+    signal?: AbortSignal
+  ): Promise<DowngradableLockHandle> => {
+    if (upgradedToken || pendingUpgrade) {
+      throw ALREADY_UPGRADED_ERROR();
+    }
+
+    // Check if already aborted
+    if (signal?.aborted) {
+      throw ABORTED_ERROR();
+    }
+
+    // Can upgrade immediately if no plain readers remain
+    if (currentReaders === 0) {
+      return acquireUpgradedWriteLock();
+    }
+
+    return new Promise<DowngradableLockHandle>((resolve, reject) => {
+      const item: WriteQueueItem = {
+        resolve: undefined!,
+        reject: undefined!,
+        signal,
+      };
+
+      const abortHandle = onAbort(signal, () => {
+        if (pendingUpgrade === item) {
+          pendingUpgrade = undefined;
+          reject(ABORTED_ERROR());
+          // Readers blocked by the pending upgrade can proceed
+          scheduleNextProcess();
+        }
+      });
+
+      // Wrap to clean up
+      item.resolve = (handle: DowngradableLockHandle) => {
+        abortHandle.release();
+        resolve(handle);
+      };
+      item.reject = (error: Error) => {
+        abortHandle.release();
+        reject(error);
+      };
+
+      pendingUpgrade = item;
+    });
+  };
+
+  const releaseUpgradeableReadLock = (): void => {
+    if (!hasUpgradeableReader) {
+      return;
+    }
+
+    // Cancel the pending upgrade
+    if (pendingUpgrade) {
+      const item = pendingUpgrade;
+      pendingUpgrade = undefined;
+      item.reject(UPGRADE_RELEASED_ERROR());
+    }
+    // Release the upgraded write lock together
+    if (upgradedToken) {
+      upgradedToken = undefined;
+      hasWriter = false;
+    }
+
+    hasUpgradeableReader = false;
+    scheduleNextProcess();
+  };
+
+  const acquireUpgradeableReadLock = (): UpgradeableLockHandle => {
+    hasUpgradeableReader = true;
+    return createUpgradeableReadLockHandle(
+      releaseUpgradeableReadLock,
+      upgradeToWriteLock
+    );
+  };
+
   const removeFromReadQueue = (item: ReadQueueItem): void => {
     const index = readQueue.indexOf(item);
     if (index !== -1) {
@@ -258,6 +486,15 @@ export function createReaderWriterLock(
     }
   };
 
+  const removeFromUpgradeableReadQueue = (
+    item: UpgradeableReadQueueItem
+  ): void => {
+    const index = upgradeableReadQueue.indexOf(item);
+    if (index !== -1) {
+      upgradeableReadQueue.splice(index, 1);
+    }
+  };
+
   const removeFromWriteQueue = (item: WriteQueueItem): void => {
     const index = writeQueue.indexOf(item);
     if (index !== -1) {
@@ -274,9 +511,10 @@ export function createReaderWriterLock(
 
       // Can acquire immediately based on policy
       const canAcquireImmediately =
-        policy === 'read-preferring'
+        !pendingUpgrade &&
+        (policy === 'read-preferring'
           ? !hasWriter // Read-preferring: acquire if no active writer
-          : !hasWriter && writeQueue.length === 0; // Write-preferring: also check no writers waiting
+          : !hasWriter && writeQueue.length === 0); // Write-preferring: also check no writers waiting
 
       if (canAcquireImmediately) {
         currentReaders++;
@@ -312,9 +550,10 @@ export function createReaderWriterLock(
     } else {
       // Can acquire immediately based on policy
       const canAcquireImmediately =
-        policy === 'read-preferring'
+        !pendingUpgrade &&
+        (policy === 'read-preferring'
           ? !hasWriter // Read-preferring: acquire if no active writer
-          : !hasWriter && writeQueue.length === 0; // Write-preferring: also check no writers waiting
+          : !hasWriter && writeQueue.length === 0); // Write-preferring: also check no writers waiting
 
       if (canAcquireImmediately) {
         currentReaders++;
@@ -332,7 +571,55 @@ export function createReaderWriterLock(
     }
   };
 
-  const writeLock = async (signal?: AbortSignal): Promise<LockHandle> => {
+  const upgradeableReadLock = async (
+    signal?: AbortSignal
+  ): Promise<UpgradeableLockHandle> => {
+    // Check if already aborted
+    if (signal?.aborted) {
+      throw ABORTED_ERROR();
+    }
+
+    // Can acquire immediately if no writer and no other upgradeable reader
+    const canAcquireImmediately =
+      !hasWriter &&
+      !hasUpgradeableReader &&
+      upgradeableReadQueue.length === 0 &&
+      (policy === 'read-preferring' || writeQueue.length === 0);
+
+    if (canAcquireImmediately) {
+      return acquireUpgradeableReadLock();
+    }
+
+    return new Promise<UpgradeableLockHandle>((resolve, reject) => {
+      const queueItem: UpgradeableReadQueueItem = {
+        resolve: undefined!,
+        reject: undefined!,
+        signal,
+      };
+
+      const abortHandle = onAbort(signal, () => {
+        removeFromUpgradeableReadQueue(queueItem);
+        reject(ABORTED_ERROR());
+      });
+
+      // Wrap to clean up
+      queueItem.resolve = (handle: UpgradeableLockHandle) => {
+        abortHandle.release();
+        resolve(handle);
+      };
+      queueItem.reject = (error: Error) => {
+        abortHandle.release();
+        reject(error);
+      };
+
+      upgradeableReadQueue.push(queueItem);
+      processQueues();
+    });
+  };
+
+  const writeLock = async (
+    signal?: AbortSignal
+  ): Promise<DowngradableLockHandle> => {
     if (signal) {
       // Check if already aborted
       if (signal.aborted) {
@@ -340,12 +627,12 @@ export function createReaderWriterLock(
       }
 
       // Can acquire immediately if no readers and no writer
-      if (!hasWriter && currentReaders === 0) {
+      if (!hasWriter && !hasUpgradeableReader && currentReaders === 0) {
         hasWriter = true;
-        return createWriteLockHandle(releaseWriteLock);
+        return createWriteLockHandle(releaseWriteLock, downgradeWriteLock);
       }
 
-      return new Promise<LockHandle>((resolve, reject) => {
+      return new Promise<DowngradableLockHandle>((resolve, reject) => {
         // Handle case with AbortSignal
         const queueItem: WriteQueueItem = {
           resolve: undefined!,
@@ -359,7 +646,7 @@ export function createReaderWriterLock(
         });
 
         // Wrap to clean up
-        queueItem.resolve = (handle: LockHandle) => {
+        queueItem.resolve = (handle: DowngradableLockHandle) => {
           abortHandle.release();
           resolve(handle);
         };
@@ -373,12 +660,12 @@ export function createReaderWriterLock(
       });
     } else {
       // Can acquire immediately if no readers and no writer
-      if (!hasWriter && currentReaders === 0) {
+      if (!hasWriter && !hasUpgradeableReader && currentReaders === 0) {
         hasWriter = true;
-        return createWriteLockHandle(releaseWriteLock);
+        return createWriteLockHandle(releaseWriteLock, downgradeWriteLock);
       }
 
-      return new Promise<LockHandle>((resolve, reject) => {
+      return new Promise<DowngradableLockHandle>((resolve, reject) => {
         // Handle case without AbortSignal
         writeQueue.push({
           resolve,
@@ -394,24 +681,36 @@ export function createReaderWriterLock(
     wait: readLock,
   };
 
+  const upgradeableReadWaiter: Waiter = {
+    wait: upgradeableReadLock,
+  };
+
   const writeWaiter: Waiter = {
     wait: writeLock,
   };
 
   return {
     readLock,
+    upgradeableReadLock,
     writeLock,
     readWaiter,
+    upgradeableReadWaiter,
     writeWaiter,
     get currentReaders() {
       return currentReaders;
     },
+    get hasUpgradeableReader() {
+      return hasUpgradeableReader;
+    },
     get hasWriter() {
       return hasWriter;
     },
     get pendingReadersCount() {
       return readQueue.length;
     },
+    get pendingUpgradeableReadersCount() {
+      return upgradeableReadQueue.length;
+    },
     get pendingWritersCount() {
       return writeQueue.length;
     },
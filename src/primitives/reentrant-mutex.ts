@@ -0,0 +1,136 @@
+// async-primitives - A collection of primitive functions for asynchronous operations in TypeScript/JavaScript.
+// Copyright (c) Kouji Matsui. (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/async-primitives
+
+import {
+  LockHandle,
+  LockOptions,
+  LockPriority,
+  MutexOptions,
+  ReentrantMutex,
+} from '../types';
+import { getCurrentLogicalContextId } from './logical-context';
+import { createMutex } from './mutex';
+import { isAbortSignal } from './internal/utils';
+
+const ABORTED_ERROR = () => new Error('Lock acquisition was aborted');
+
+/**
+ * Creates a new LockHandle instance
+ * @param releaseCallback Callback function to release the lock
+ * @returns A LockHandle object with release and dispose functionality
+ */
+const createLockHandle = (releaseCallback: () => void): LockHandle => {
+  let isActive = true;
+
+  const release = (): void => {
+    if (!isActive) {
+      return;
+    }
+    isActive = false;
+    releaseCallback();
+  };
+
+  return {
+    get isActive() {
+      return isActive;
+    },
+    release,
+    [Symbol.dispose]: release,
+  };
+};
+
+/**
+ * Creates a new ReentrantMutex instance
+ * @param maxConsecutiveCallsOrOptions - The maximum number of consecutive calls to the lockAsync method before yielding control to the next item in the queue, or options for the Mutex
+ * @returns A new ReentrantMutex for promise-based reentrant mutex operations
+ * @remarks The owner is identified by the logical context id at the time of the lock request.
+ * Use `runOnNewLogicalContext()` to separate independent asynchronous flows.
+ * The lock is released when every handle acquired by the owner has been released.
+ */
+export const createReentrantMutex = (
+  maxConsecutiveCallsOrOptions: number | MutexOptions = 20
+): ReentrantMutex => {
+  const mutex = createMutex(maxConsecutiveCallsOrOptions);
+  let ownerId: symbol | undefined;
+  let ownerHandle: LockHandle | undefined;
+  let recursionCount = 0;
+
+  const releaseRecursion = (): void => {
+    recursionCount--;
+    if (recursionCount === 0) {
+      // The outermost acquisition is released, release the underlying mutex
+      const handle = ownerHandle!;
+      ownerId = undefined;
+      ownerHandle = undefined;
+      handle.release();
+    }
+  };
+
+  const enter = (): LockHandle => {
+    recursionCount++;
+    return createLockHandle(releaseRecursion);
+  };
+
+  const own = (id: symbol, handle: LockHandle): LockHandle => {
+    ownerId = id;
+    ownerHandle = handle;
+    return enter();
+  };
+
+  const tryLock = (): LockHandle | undefined => {
+    const id = getCurrentLogicalContextId();
+
+    // Already owned by the current logical context
+    if (ownerId === id) {
+      return enter();
+    }
+
+    const handle = mutex.tryLock();
+    return handle ? own(id, handle) : undefined;
+  };
+
+  const lock = async (
+    signalOrOptions?: AbortSignal | LockOptions
+  ): Promise<LockHandle> => {
+    // Capture the requester before any asynchronous boundary
+    const id = getCurrentLogicalContextId();
+    const options: LockOptions = isAbortSignal(signalOrOptions)
+      ? { signal: signalOrOptions }
+      : (signalOrOptions ?? {});
+
+    // Already owned by the current logical context
+    if (ownerId === id) {
+      // Check if already aborted
+      if (options.signal?.aborted) {
+        throw ABORTED_ERROR();
+      }
+      return enter();
+    }
+
+    const handle = await mutex.lock(options);
+    return own(id, handle);
+  };
+
+  const result: ReentrantMutex = {
+    lock,
+    tryLock,
+    waiter: {
+      wait: lock,
+    },
+    get isLocked() {
+      return mutex.isLocked;
+    },
+    get pendingCount() {
+      return mutex.pendingCount;
+    },
+    getPendingCount: (priority: LockPriority) =>
+      mutex.getPendingCount(priority),
+    get recursionCount() {
+      return recursionCount;
+    },
+  };
+
+  return result;
+};
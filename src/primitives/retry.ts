@@ -0,0 +1,193 @@
+// async-primitives - A collection of primitive functions for asynchronous operations in TypeScript/JavaScript.
+// Copyright (c) Kouji Matsui. (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/async-primitives
+
+import { Awaitable, RetryBackoff, RetryOptions } from '../types';
+import { onAbort } from './abort-hook';
+import { delay } from './delay';
+import { RetryError } from './errors';
+
+const ABORTED_ERROR = () => new Error('Retry was aborted');
+
+/**
+ * Calculates the wait before the next attempt
+ * @param backoff The backoff strategy
+ * @param attempt The failed attempt number, starting from 1
+ * @param baseMs The base wait in milliseconds
+ * @param maxMs The maximum wait in milliseconds
+ * @param previousMs The previous wait in milliseconds
+ * @returns The wait in milliseconds
+ */
+const calculateDelay = (
+  backoff: RetryBackoff,
+  attempt: number,
+  baseMs: number,
+  maxMs: number,
+  previousMs: number
+): number => {
+  switch (backoff) {
+    case 'fixed':
+      return Math.min(baseMs, maxMs);
+    case 'exponential':
+      return Math.min(baseMs * 2 ** (attempt - 1), maxMs);
+    case 'decorrelated-jitter': {
+      // Random between the base and three times the previous wait
+      const upper = Math.max(previousMs * 3, baseMs);
+      return Math.min(baseMs + Math.random() * (upper - baseMs), maxMs);
+    }
+  }
+};
+
+/**
+ * Waits for the pending result, rejecting immediately when the signal is aborted
+ * @param pending The pending result of the attempt
+ * @param signal Optional AbortSignal for cancelling the attempt
+ * @returns Promise that resolves to the result
+ */
+const waitOrAbort = <T>(
+  pending: Promise<T>,
+  signal: AbortSignal | undefined
+): Promise<T> => {
+  if (!signal) {
+    return pending;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const abortHandle = onAbort(signal, () => {
+      reject(ABORTED_ERROR());
+    });
+    pending.then(resolve, reject).finally(() => abortHandle.release());
+  });
+};
+
+/**
+ * Iterates the attempt, rejecting immediately when the signal is aborted
+ * @param iterator The iterator of the attempt
+ * @param signal Optional AbortSignal for cancelling the attempt
+ * @returns Async generator yielding the values and returning the result of the attempt
+ */
+const iterateAttempt = async function* <T, TReturn>(
+  iterator: AsyncIterator<T, TReturn>,
+  signal: AbortSignal | undefined
+): AsyncGenerator<T, TReturn, undefined> {
+  let pending: Promise<IteratorResult<T, TReturn>> | undefined;
+  let isDone = false;
+  try {
+    while (true) {
+      pending = iterator.next();
+      const result = await waitOrAbort(pending, signal);
+      pending = undefined;
+      if (result.done) {
+        isDone = true;
+        return result.value;
+      }
+      yield result.value;
+    }
+  } finally {
+    if (pending !== undefined) {
+      // Still running or failed, request to stop without waiting for it
+      pending.catch(() => {});
+      iterator.return?.()?.catch(() => {});
+    } else if (!isDone) {
+      await iterator.return?.();
+    }
+  }
+};
+
+/**
+ * Iterates the attempts, retrying with backoff while they fail
+ * @param attempt Function starting the attempt, receiving the attempt number starting from 1 and the signal
+ * @param options Optional options for retrying
+ * @returns Async generator yielding the values and returning the result of the first successful attempt
+ * @remarks When all attempts failed, rejects with `RetryError` containing the failure of each attempt.
+ * When `shouldRetry` returns false, rejects with the failure as is.
+ * Aborting the signal rejects immediately, even while running an attempt or waiting for the next attempt.
+ * The values yielded by a failed attempt are not withdrawn.
+ */
+export const iterateWithRetry = async function* <T, TReturn>(
+  attempt: (
+    attempt: number,
+    signal: AbortSignal | undefined
+  ) => AsyncIterator<T, TReturn>,
+  options: RetryOptions | undefined
+): AsyncGenerator<T, TReturn, undefined> {
+  const retries = options?.retries ?? 3;
+  const backoff = options?.backoff ?? 'exponential';
+  const baseMs = options?.baseMs ?? 100;
+  const maxMs = options?.maxMs ?? 30000;
+  const signal = options?.signal;
+
+  if (!Number.isInteger(retries) || retries < 0) {
+    throw new RangeError('Retry count must be 0 or greater');
+  }
+
+  const errors: unknown[] = [];
+  let previousMs = baseMs;
+
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    if (signal?.aborted) {
+      throw ABORTED_ERROR();
+    }
+    try {
+      return yield* iterateAttempt(attempt(attemptNumber, signal), signal);
+    } catch (error: unknown) {
+      // Aborted while running the attempt
+      if (signal?.aborted) {
+        throw ABORTED_ERROR();
+      }
+      errors.push(error);
+      if (
+        options?.shouldRetry &&
+        !(await options.shouldRetry(error, attemptNumber))
+      ) {
+        throw error;
+      }
+      if (attemptNumber > retries) {
+        throw new RetryError(errors);
+      }
+
+      const delayMs = calculateDelay(
+        backoff,
+        attemptNumber,
+        baseMs,
+        maxMs,
+        previousMs
+      );
+      previousMs = delayMs;
+      options?.onRetry?.(error, attemptNumber, delayMs);
+
+      try {
+        await delay(delayMs, signal);
+      } catch (error: unknown) {
+        // If the signal is aborted, throw a more descriptive error
+        if (signal?.aborted) {
+          throw ABORTED_ERROR();
+        }
+        throw error;
+      }
+    }
+  }
+};
+
+/**
+ * Runs the function, retrying with backoff while it fails
+ * @param fn The function to run, receiving the attempt number starting from 1 and the signal
+ * @param options Optional options for retrying
+ * @returns Promise that resolves to the first successful result
+ * @remarks When all attempts failed, rejects with `RetryError` containing the failure of each attempt.
+ * When `shouldRetry` returns false, rejects with the failure as is.
+ * Aborting the signal rejects immediately, even while waiting for the next attempt.
+ */
+export const retry = async <T>(
+  fn: (attempt: number, signal: AbortSignal | undefined) => Awaitable<T>,
+  options?: RetryOptions
+): Promise<T> => {
+  // The attempts yield nothing, so the first result is the successful result
+  const result = await iterateWithRetry(async function* (
+    attempt: number,
+    signal: AbortSignal | undefined
+  ): AsyncGenerator<never, T, undefined> {
+    return await fn(attempt, signal);
+  }, options).next();
+  return result.value;
+};
@@ -3,25 +3,46 @@
 // Under MIT.
 // https://github.com/kekyo/async-primitives
 
-import { LockHandle, Semaphore } from '../types';
+import {
+  LockHandle,
+  LockPriority,
+  Semaphore,
+  SemaphoreAcquireOptions,
+  SemaphoreOptions,
+} from '../types';
 import { onAbort } from './abort-hook';
+import { getClock } from './clock';
 import { defer } from './defer';
+import { isAbortSignal } from './internal/utils';
+import {
+  PriorityQueueItem,
+  countByPriority,
+  enqueueByPriority,
+  findNextIndex,
+  normalizePriority,
+} from './internal/priority-queue';
 
 /**
  * Internal queue item for semaphore acquisition requests
  */
-interface QueueItem {
+interface QueueItem extends PriorityQueueItem {
   /** Promise resolver for the semaphore acquisition */
   resolve: (handle: LockHandle) => void;
   /** Promise rejecter for the semaphore acquisition */
   reject: (error: Error) => void;
   /** Optional AbortSignal for cancelling the request */
   signal?: AbortSignal | undefined;
+  /** Number of resources to acquire */
+  weight: number;
 }
 
 const ABORTED_ERROR = () => new Error('Semaphore acquisition was aborted');
 const INVALID_COUNT_ERROR = () =>
   new Error('Semaphore count must be greater than 0');
+const INVALID_WEIGHT_ERROR = () =>
+  new Error('Semaphore weight must be greater than 0');
+const EXCEEDED_WEIGHT_ERROR = () =>
+  new Error('Semaphore weight exceeds the semaphore count');
 
 /**
  * Creates a new SemaphoreHandle instance
@@ -51,37 +72,55 @@ const createSemaphoreHandle = (releaseCallback: () => void): LockHandle => {
 /**
  * Creates a new Semaphore instance for managing limited concurrent access
  * @param count The maximum number of concurrent acquisitions allowed (must be greater than 0)
- * @param maxConsecutiveCalls The maximum number of consecutive calls before yielding control
+ * @param maxConsecutiveCallsOrOptions The maximum number of consecutive calls before yielding control, or options for the Semaphore
  * @returns A new Semaphore for managing concurrent resource access
  */
 export const createSemaphore = (
   count: number,
-  maxConsecutiveCalls: number = 20
+  maxConsecutiveCallsOrOptions: number | SemaphoreOptions = 20
 ): Semaphore => {
+  const { maxConsecutiveCalls = 20, priorityAgingMs } =
+    typeof maxConsecutiveCallsOrOptions === 'number'
+      ? { maxConsecutiveCalls: maxConsecutiveCallsOrOptions }
+      : maxConsecutiveCallsOrOptions;
+
   if (count < 1) {
     throw INVALID_COUNT_ERROR();
   }
 
+  let maxCount = count;
+  // Becomes negative when the semaphore is shrunk below the acquired resources
   let availableCount = count;
   const queue: QueueItem[] = [];
   let consecutiveCallCount = 0;
 
   const processQueue = (): void => {
-    while (availableCount > 0 && queue.length > 0) {
-      const item = queue.shift()!;
+    while (queue.length > 0) {
+      // Pick the highest priority item, taking aging into account
+      const index = findNextIndex(queue, priorityAgingMs);
+      const item = queue[index]!;
 
       // Check if the request was aborted
       if (item.signal?.aborted) {
+        queue.splice(index, 1);
         item.reject(ABORTED_ERROR());
         // Continue processing next item
         continue;
       }
 
-      // Acquire a resource
-      availableCount--;
+      // Keep FIFO ordering, the head item is never overtaken by lighter items
+      if (availableCount < item.weight) {
+        break;
+      }
+      queue.splice(index, 1);
+
+      // Acquire resources
+      availableCount -= item.weight;
 
       // Continue to awaiter with semaphoreHandle
-      const semaphoreHandle = createSemaphoreHandle(releaseSemaphore);
+      const semaphoreHandle = createSemaphoreHandle(() =>
+        releaseSemaphore(item.weight)
+      );
       item.resolve(semaphoreHandle);
     }
   };
@@ -99,8 +138,8 @@ export const createSemaphore = (
     }
   };
 
-  const releaseSemaphore = (): void => {
-    availableCount++;
+  const releaseSemaphore = (weight: number): void => {
+    availableCount += weight;
     // Process next item in queue with batching control
     scheduleNextProcess();
   };
@@ -112,17 +151,47 @@ export const createSemaphore = (
     }
   };
 
-  const acquire = async (signal?: AbortSignal): Promise<LockHandle> => {
+  const tryAcquireImmediately = (weight: number): LockHandle | undefined => {
+    // Do not overtake pending requests, keep FIFO ordering
+    if (queue.length >= 1 || availableCount < weight) {
+      return undefined;
+    }
+
+    availableCount -= weight;
+    return createSemaphoreHandle(() => releaseSemaphore(weight));
+  };
+
+  const acquire = async (
+    weightOrSignalOrOptions?: number | AbortSignal | SemaphoreAcquireOptions,
+    maybeSignal?: AbortSignal
+  ): Promise<LockHandle> => {
+    const options: SemaphoreAcquireOptions =
+      typeof weightOrSignalOrOptions === 'number'
+        ? { weight: weightOrSignalOrOptions, signal: maybeSignal }
+        : isAbortSignal(weightOrSignalOrOptions)
+          ? { signal: weightOrSignalOrOptions }
+          : (weightOrSignalOrOptions ?? {});
+    const { weight = 1, signal } = options;
+    const priority = normalizePriority(options.priority);
+    const enqueuedAt = getClock().now();
+
+    if (!Number.isInteger(weight) || weight < 1) {
+      throw INVALID_WEIGHT_ERROR();
+    }
+    if (weight > maxCount) {
+      throw EXCEEDED_WEIGHT_ERROR();
+    }
+
     if (signal) {
       // Check if already aborted
       if (signal.aborted) {
         throw ABORTED_ERROR();
       }
 
-      // If resource is available immediately and not aborted
-      if (availableCount > 0) {
-        availableCount--;
-        return createSemaphoreHandle(releaseSemaphore);
+      // If resources are available immediately and not aborted
+      const handle = tryAcquireImmediately(weight);
+      if (handle) {
+        return handle;
       }
 
       return new Promise<LockHandle>((resolve, reject) => {
@@ -131,11 +200,16 @@ export const createSemaphore = (
           resolve: undefined!,
           reject: undefined!,
           signal,
+          weight,
+          priority,
+          enqueuedAt,
         };
 
         const abortHandle = onAbort(signal, () => {
           removeFromQueue(queueItem);
           reject(ABORTED_ERROR());
+          // The removed item may have been blocking lighter items behind it
+          processQueue();
         });
 
         // Wrap to clean up
@@ -148,38 +222,65 @@ export const createSemaphore = (
           reject(error);
         };
 
-        queue.push(queueItem);
+        enqueueByPriority(queue, queueItem);
         processQueue();
       });
     } else {
-      // If resource is available immediately
-      if (availableCount > 0) {
-        availableCount--;
-        return createSemaphoreHandle(releaseSemaphore);
+      // If resources are available immediately
+      const handle = tryAcquireImmediately(weight);
+      if (handle) {
+        return handle;
       }
 
       return new Promise<LockHandle>((resolve, reject) => {
         // Handle case without AbortSignal
-        queue.push({
+        enqueueByPriority(queue, {
           resolve,
           reject,
+          weight,
+          priority,
+          enqueuedAt,
         });
         processQueue();
       });
     }
   };
 
+  const resize = (newCount: number): void => {
+    if (newCount < 1) {
+      throw INVALID_COUNT_ERROR();
+    }
+
+    availableCount += newCount - maxCount;
+    maxCount = newCount;
+
+    // Reject pending requests that can never be satisfied with the new count
+    for (const item of queue.filter((item) => item.weight > maxCount)) {
+      removeFromQueue(item);
+      item.reject(EXCEEDED_WEIGHT_ERROR());
+    }
+
+    // Growing the semaphore may release pending requests
+    processQueue();
+  };
+
   const result: Semaphore = {
     acquire,
+    resize,
     waiter: {
       wait: acquire,
     },
+    get maxCount() {
+      return maxCount;
+    },
     get availableCount() {
-      return availableCount;
+      return Math.max(availableCount, 0);
     },
     get pendingCount() {
       return queue.length;
     },
+    getPendingCount: (priority: LockPriority) =>
+      countByPriority(queue, priority),
   };
 
   return result;
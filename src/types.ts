@@ -23,6 +23,130 @@ export interface LockHandle extends Releasable {
   readonly isActive: boolean;
 }
 
+/**
+ * Write lock handle that can be downgraded to a read lock
+ */
+export interface DowngradableLockHandle extends LockHandle {
+  /**
+   * Atomically converts the write lock into a read lock
+   * @returns A disposable read lock handle
+   * @remarks This handle becomes inactive. No other writer can acquire the lock in between.
+   */
+  readonly downgrade: () => LockHandle;
+}
+
+/**
+ * Upgradeable read lock handle that can be upgraded to a write lock
+ */
+export interface UpgradeableLockHandle extends LockHandle {
+  /**
+   * Atomically upgrades to a write lock, waiting until other readers have released
+   * @param signal Optional AbortSignal for cancelling the upgrade
+   * @returns Promise that resolves to a disposable write lock handle
+   * @remarks
+   * Releasing the returned write lock handle returns to the upgradeable read lock.
+   * Releasing this handle also releases the upgraded write lock.
+   */
+  readonly upgrade: (signal?: AbortSignal) => Promise<DowngradableLockHandle>;
+}
+
+/**
+ * Clock and scheduler used by the timing dependent primitives
+ */
+export interface Clock {
+  /**
+   * Get the current time
+   * @returns Current time in milliseconds
+   */
+  readonly now: () => number;
+
+  /**
+   * Schedule a callback after the specified time
+   * @param callback The callback to invoke
+   * @param msec The number of milliseconds to wait
+   * @returns Releasable to cancel the timer
+   */
+  readonly setTimer: (callback: () => void, msec: number) => Releasable;
+
+  /**
+   * Schedule a callback to the next tick
+   * @param callback The callback to invoke
+   */
+  readonly defer: (callback: () => void) => void;
+}
+
+/**
+ * Virtual clock that advances only when requested
+ */
+export interface VirtualClock extends Clock {
+  /**
+   * Advance the time, invoking the timers due meanwhile in order
+   * @param msec The number of milliseconds to advance
+   * @returns Promise that resolves when the timers are invoked and their continuations settled
+   */
+  readonly advance: (msec: number) => Promise<void>;
+
+  /**
+   * Invoke all pending timers in order, including timers scheduled meanwhile
+   * @param maxTimers Optional maximum number of timers to invoke (Default: 10000)
+   * @returns Promise that resolves when no timer remains
+   * @remarks Throws when the timers do not settle within `maxTimers`, such as an endless interval.
+   */
+  readonly runAll: (maxTimers?: number) => Promise<void>;
+
+  /**
+   * Number of pending timers, including deferred callbacks
+   */
+  readonly pendingCount: number;
+}
+
+/**
+ * Backoff strategy between retry attempts
+ */
+export type RetryBackoff = 'fixed' | 'exponential' | 'decorrelated-jitter';
+
+/**
+ * Options for `retry()`
+ */
+export interface RetryOptions {
+  /**
+   * Optional maximum number of retries after the first attempt (Default: 3)
+   */
+  retries?: number;
+  /**
+   * Optional backoff strategy (Default: 'exponential')
+   * @remarks 'fixed' waits `baseMs`, 'exponential' doubles the wait from `baseMs`,
+   * and 'decorrelated-jitter' waits randomly between `baseMs` and three times the previous wait.
+   */
+  backoff?: RetryBackoff;
+  /**
+   * Optional base wait in milliseconds (Default: 100)
+   */
+  baseMs?: number;
+  /**
+   * Optional maximum wait in milliseconds (Default: 30000)
+   */
+  maxMs?: number;
+  /**
+   * Optional predicate deciding whether the failure is retried (Default: always retried)
+   * @param error The failure of the attempt
+   * @param attempt The attempt number, starting from 1
+   * @returns True to retry, false to give up and throw the failure as is
+   */
+  shouldRetry?: (error: unknown, attempt: number) => Awaitable<boolean>;
+  /**
+   * Optional AbortSignal for cancelling the attempts and the backoff
+   */
+  signal?: AbortSignal;
+  /**
+   * Optional callback invoked before waiting for the next attempt
+   * @param error The failure of the attempt
+   * @param attempt The failed attempt number, starting from 1
+   * @param delayMs The wait in milliseconds before the next attempt
+   */
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
 /**
  * Waiter object
  */
@@ -46,16 +170,74 @@ export interface Waitable {
   readonly waiter: Waiter;
 }
 
+/**
+ * Priority for lock acquisition
+ * @remarks Larger numbers are served first. 'high', 'normal' and 'low' correspond to 1, 0 and -1.
+ */
+export type LockPriority = 'high' | 'normal' | 'low' | number;
+
+/**
+ * Options for lock acquisition
+ */
+export interface LockOptions {
+  /**
+   * Optional AbortSignal for cancelling the lock acquisition
+   */
+  signal?: AbortSignal;
+  /**
+   * Optional timeout in milliseconds (Default: unlimited)
+   * @remarks When the timeout elapses, the acquisition rejects with `TimeoutError`
+   */
+  timeoutMs?: number;
+  /**
+   * Optional priority of the request (Default: 'normal')
+   */
+  priority?: LockPriority;
+}
+
+/**
+ * Options for creating a Mutex
+ */
+export interface MutexOptions {
+  /**
+   * Maximum consecutive calls before yielding control (default: 20)
+   */
+  maxConsecutiveCalls?: number;
+  /**
+   * Interval in milliseconds to raise the priority of waiting requests by one (Default: no aging)
+   * @remarks Prevents low priority requests from being starved forever.
+   */
+  priorityAgingMs?: number;
+}
+
 /**
  * Mutex interface for promise-based mutex operations
  */
 export interface Mutex extends Waitable {
   /**
    * Acquires the lock asynchronously
-   * @param signal Optional AbortSignal for cancelling the lock acquisition
-   * @returns Promise that resolves to a disposable lock handle
    */
-  readonly lock: (signal?: AbortSignal) => Promise<LockHandle>;
+  readonly lock: {
+    /**
+     * Acquires the lock asynchronously
+     * @param signal Optional AbortSignal for cancelling the lock acquisition
+     * @returns Promise that resolves to a disposable lock handle
+     */
+    (signal?: AbortSignal): Promise<LockHandle>;
+
+    /**
+     * Acquires the lock asynchronously with options
+     * @param options Options for the lock acquisition
+     * @returns Promise that resolves to a disposable lock handle
+     */
+    (options: LockOptions): Promise<LockHandle>;
+  };
+
+  /**
+   * Tries to acquire the lock without waiting
+   * @returns A disposable lock handle if the lock was free, otherwise undefined
+   */
+  readonly tryLock: () => LockHandle | undefined;
 
   /**
    * Indicates if the lock is currently acquired
@@ -66,6 +248,23 @@ export interface Mutex extends Waitable {
    * Number of pending lock requests
    */
   readonly pendingCount: number;
+
+  /**
+   * Gets the number of pending lock requests with the specified priority
+   * @param priority The priority to count
+   * @returns Number of pending lock requests
+   */
+  readonly getPendingCount: (priority: LockPriority) => number;
+}
+
+/**
+ * Reentrant mutex interface that allows recursive acquisition from the same logical context
+ */
+export interface ReentrantMutex extends Mutex {
+  /**
+   * Number of recursive acquisitions held by the current owner
+   */
+  readonly recursionCount: number;
 }
 
 /**
@@ -78,12 +277,30 @@ export interface Conditional extends Waitable {
    */
   readonly trigger: () => void;
 
+  /**
+   * Trigger the conditional for all current waiters
+   * @remarks This will resolve all waiters currently waiting, without latching the state
+   */
+  readonly triggerAll: () => void;
+
   /**
    * Wait to be triggered
    * @param signal Optional AbortSignal for cancelling the wait
    * @returns Promise that resolves when triggered, returns dummy lock handle
    */
   readonly wait: (signal?: AbortSignal) => Promise<void>;
+
+  /**
+   * Wait until the predicate holds
+   * @param predicate Predicate function re-checked on every trigger
+   * @param signal Optional AbortSignal for cancelling the wait
+   * @returns Promise that resolves when the predicate holds
+   * @remarks The predicate is checked immediately, then re-checked each time this waiter is triggered.
+   */
+  readonly waitUntil: (
+    predicate: () => boolean,
+    signal?: AbortSignal
+  ) => Promise<void>;
 }
 
 /**
@@ -103,16 +320,310 @@ export interface ManuallyConditional extends Conditional {
   readonly drop: () => void;
 }
 
+/**
+ * Condition variable interface paired with a Mutex (monitor pattern)
+ */
+export interface ConditionVariable {
+  /**
+   * Release the lock, wait to be notified and re-acquire the lock atomically
+   * @param handle The active lock handle acquired from the paired Mutex
+   * @param signal Optional AbortSignal for cancelling the wait
+   * @returns Promise that resolves to a new lock handle when notified and the lock is re-acquired
+   * @remarks The passed handle is released while waiting, use the returned handle afterwards.
+   * When the wait is aborted, the promise rejects and the lock is not held.
+   * When the signal is already aborted, the promise rejects without releasing the passed handle.
+   * Waiters can wake up without the awaited state change, so re-check the state in a loop.
+   */
+  readonly wait: (
+    handle: LockHandle,
+    signal?: AbortSignal
+  ) => Promise<LockHandle>;
+
+  /**
+   * Notify one waiter
+   */
+  readonly notifyOne: () => void;
+
+  /**
+   * Notify all current waiters
+   */
+  readonly notifyAll: () => void;
+}
+
+/**
+ * Countdown latch interface that is released when the count reaches zero
+ */
+export interface CountdownLatch extends Waitable {
+  /**
+   * Signal the latch
+   * @remarks This will decrement the count, and resolve all waiters when the count reaches zero.
+   * Signaling after the count reached zero is ignored.
+   */
+  readonly signal: () => void;
+
+  /**
+   * Wait until the count reaches zero
+   * @param signal Optional AbortSignal for cancelling the wait
+   * @returns Promise that resolves when the count reaches zero
+   */
+  readonly wait: (signal?: AbortSignal) => Promise<void>;
+
+  /**
+   * Current remaining count
+   */
+  readonly currentCount: number;
+}
+
+/**
+ * Options for creating a Barrier
+ */
+export interface BarrierOptions {
+  /**
+   * Callback invoked when all participants arrived, before they are released
+   * @param phase The completed phase number
+   * @remarks When this throws, the barrier is broken and all participants of the phase receive the error.
+   */
+  onPhaseComplete?: (phase: number) => void;
+}
+
+/**
+ * Barrier interface that all participants meet before any proceeds
+ */
+export interface Barrier extends Waitable {
+  /**
+   * Arrive at the barrier and wait for the other participants
+   * @param signal Optional AbortSignal for cancelling the wait
+   * @returns Promise that resolves to the completed phase number when all participants arrived
+   * @remarks Aborting a participant breaks the barrier, all waiting participants are rejected.
+   * Waiting on a broken barrier rejects until `reset()` is called.
+   */
+  readonly wait: (signal?: AbortSignal) => Promise<number>;
+
+  /**
+   * Reset the barrier to the initial state of the current phase
+   * @remarks All waiting participants are rejected as broken.
+   */
+  readonly reset: () => void;
+
+  /**
+   * Number of participants
+   */
+  readonly participants: number;
+
+  /**
+   * Number of participants arrived in the current phase
+   */
+  readonly arrivedCount: number;
+
+  /**
+   * Current phase number, starting from 0
+   */
+  readonly currentPhase: number;
+
+  /**
+   * Whether the barrier is broken
+   */
+  readonly isBroken: boolean;
+}
+
+/**
+ * Options for creating a Channel
+ */
+export interface ChannelOptions {
+  /**
+   * Optional number of values buffered without a receiver (Default: 0, unbuffered)
+   * @remarks With 0, `send()` waits until a receiver takes the value (rendezvous).
+   */
+  capacity?: number;
+}
+
+/**
+ * Value received from a channel
+ */
+export interface ChannelReceived<T> {
+  /**
+   * The received value
+   */
+  readonly value: T;
+}
+
+/**
+ * Channel interface for passing values between producers and consumers
+ */
+export interface Channel<T> extends AsyncIterable<T> {
+  /**
+   * Send a value to the channel
+   * @param value The value to send
+   * @param signal Optional AbortSignal for cancelling the send
+   * @returns Promise that resolves when the value is buffered or taken by a receiver
+   * @remarks Rejects with `ChannelClosedError` when the channel is closed.
+   */
+  readonly send: (value: T, signal?: AbortSignal) => Promise<void>;
+
+  /**
+   * Receive a value from the channel
+   * @param signal Optional AbortSignal for cancelling the receive
+   * @returns Promise that resolves to the received value
+   * @remarks Rejects with `ChannelClosedError` when the channel is closed and no value remains.
+   */
+  readonly receive: (signal?: AbortSignal) => Promise<T>;
+
+  /**
+   * Receive a value only if available immediately
+   * @returns The received value, or undefined if no value is available
+   */
+  readonly tryReceive: () => ChannelReceived<T> | undefined;
+
+  /**
+   * Close the channel
+   * @remarks Waiting senders are rejected, and buffered values can still be received.
+   */
+  readonly close: () => void;
+
+  /**
+   * Number of values this channel can buffer
+   */
+  readonly capacity: number;
+
+  /**
+   * Number of values currently buffered
+   */
+  readonly length: number;
+
+  /**
+   * Whether the channel is closed
+   */
+  readonly isClosed: boolean;
+}
+
+/**
+ * Case of `select()` receiving from a channel
+ */
+export interface ChannelReceiveCase<T> {
+  /**
+   * The channel to receive from
+   */
+  readonly receive: Channel<T>;
+}
+
+/**
+ * Case of `select()` sending to a channel
+ */
+export interface ChannelSendCase<T> {
+  /**
+   * The channel to send to
+   */
+  readonly send: Channel<T>;
+  /**
+   * The value to send
+   */
+  readonly value: T;
+}
+
+/**
+ * Case of `select()`
+ */
+export type ChannelSelectCase<T = any> =
+  | ChannelReceiveCase<T>
+  | ChannelSendCase<T>;
+
+/**
+ * Result of `select()`
+ */
+export interface ChannelSelectResult<T = any> {
+  /**
+   * Index of the completed case
+   */
+  readonly index: number;
+  /**
+   * The received value, undefined for a send case or a closed channel
+   */
+  readonly value: T | undefined;
+  /**
+   * Whether the completed receive case found the channel closed
+   */
+  readonly closed: boolean;
+}
+
+/**
+ * Options for creating a Semaphore
+ */
+export interface SemaphoreOptions {
+  /**
+   * Maximum consecutive calls before yielding control (default: 20)
+   */
+  maxConsecutiveCalls?: number;
+  /**
+   * Interval in milliseconds to raise the priority of waiting requests by one (Default: no aging)
+   * @remarks Prevents low priority requests from being starved forever.
+   */
+  priorityAgingMs?: number;
+}
+
+/**
+ * Options for semaphore acquisition
+ */
+export interface SemaphoreAcquireOptions {
+  /**
+   * Optional AbortSignal for cancelling the acquisition
+   */
+  signal?: AbortSignal;
+  /**
+   * Number of resources to acquire (Default: 1)
+   */
+  weight?: number;
+  /**
+   * Optional priority of the request (Default: 'normal')
+   */
+  priority?: LockPriority;
+}
+
 /**
  * Semaphore interface for managing limited concurrent access
  */
 export interface Semaphore extends Waitable {
   /**
-   * Acquires a semaphore resource asynchronously
-   * @param signal Optional AbortSignal for cancelling the acquisition
-   * @returns Promise that resolves to a disposable semaphore handle
+   * Acquires semaphore resources asynchronously
+   */
+  readonly acquire: {
+    /**
+     * Acquires a semaphore resource asynchronously
+     * @param signal Optional AbortSignal for cancelling the acquisition
+     * @returns Promise that resolves to a disposable semaphore handle
+     */
+    (signal?: AbortSignal): Promise<LockHandle>;
+
+    /**
+     * Acquires multiple semaphore resources atomically
+     * @param weight Number of resources to acquire (must be between 1 and the semaphore count)
+     * @param signal Optional AbortSignal for cancelling the acquisition
+     * @returns Promise that resolves to a disposable semaphore handle releasing all acquired resources
+     * @remarks Pending requests with the same priority are served in FIFO order, lighter requests never overtake heavier ones.
+     */
+    (weight: number, signal?: AbortSignal): Promise<LockHandle>;
+
+    /**
+     * Acquires semaphore resources asynchronously with options
+     * @param options Options for the acquisition
+     * @returns Promise that resolves to a disposable semaphore handle releasing all acquired resources
+     */
+    (options: SemaphoreAcquireOptions): Promise<LockHandle>;
+  };
+
+  /**
+   * Changes the maximum number of concurrent acquisitions
+   * @param count The new maximum count (must be greater than 0)
+   * @remarks
+   * Pending requests are kept. When shrinking, already acquired resources remain valid
+   * and new acquisitions wait until enough resources are released.
+   * Pending requests whose weight exceeds the new count are rejected.
+   */
+  readonly resize: (count: number) => void;
+
+  /**
+   * Maximum number of concurrent acquisitions
    */
-  readonly acquire: (signal?: AbortSignal) => Promise<LockHandle>;
+  readonly maxCount: number;
 
   /**
    * Number of currently available resources
@@ -123,6 +634,86 @@ export interface Semaphore extends Waitable {
    * Number of pending acquisition requests
    */
   readonly pendingCount: number;
+
+  /**
+   * Gets the number of pending acquisition requests with the specified priority
+   * @param priority The priority to count
+   * @returns Number of pending acquisition requests
+   */
+  readonly getPendingCount: (priority: LockPriority) => number;
+}
+
+/**
+ * Rate limiting algorithm for RateLimiter
+ */
+export type RateLimiterMode = 'token-bucket' | 'sliding-window';
+
+/**
+ * Options for creating a RateLimiter
+ */
+export interface RateLimiterOptions {
+  /**
+   * Number of tokens allowed per interval (must be greater than 0)
+   */
+  tokensPerInterval: number;
+  /**
+   * Interval in milliseconds (must be greater than 0)
+   */
+  intervalMs: number;
+  /**
+   * Optional maximum number of tokens stored in the bucket (Default: tokensPerInterval)
+   * @remarks Only used by the 'token-bucket' mode.
+   */
+  burst?: number;
+  /**
+   * Optional rate limiting algorithm (Default: 'token-bucket')
+   * @remarks 'token-bucket' refills tokens continuously up to `burst`,
+   * and 'sliding-window' allows at most `tokensPerInterval` tokens within any `intervalMs` window.
+   */
+  mode?: RateLimiterMode;
+}
+
+/**
+ * RateLimiter interface for limiting throughput
+ */
+export interface RateLimiter extends Waitable {
+  /**
+   * Acquires tokens from the rate limiter
+   */
+  readonly acquire: {
+    /**
+     * Acquires a token asynchronously
+     * @param signal Optional AbortSignal for cancelling the acquisition
+     * @returns Promise that resolves to a handle when the token is acquired
+     */
+    (signal?: AbortSignal): Promise<LockHandle>;
+
+    /**
+     * Acquires multiple tokens atomically
+     * @param tokens Number of tokens to acquire (must be between 1 and the capacity)
+     * @param signal Optional AbortSignal for cancelling the acquisition
+     * @returns Promise that resolves to a handle when the tokens are acquired
+     * @remarks Pending requests are served in FIFO order, lighter requests never overtake heavier ones.
+     */
+    (tokens: number, signal?: AbortSignal): Promise<LockHandle>;
+  };
+
+  /**
+   * Tries to acquire tokens immediately
+   * @param tokens Optional number of tokens to acquire (Default: 1)
+   * @returns A handle if acquired, undefined if the tokens are not available or requests are pending
+   */
+  readonly tryAcquire: (tokens?: number) => LockHandle | undefined;
+
+  /**
+   * Number of tokens currently available
+   */
+  readonly availableTokens: number;
+
+  /**
+   * Number of pending acquisition requests
+   */
+  readonly pendingCount: number;
 }
 
 /**
@@ -155,18 +746,35 @@ export interface ReaderWriterLock {
    */
   readonly readLock: (signal?: AbortSignal) => Promise<LockHandle>;
 
+  /**
+   * Acquires an upgradeable read lock asynchronously
+   * @param signal Optional AbortSignal for cancelling the lock acquisition
+   * @returns Promise that resolves to a disposable upgradeable read lock handle
+   * @remarks
+   * At most one upgradeable reader can hold the lock, and it coexists with plain readers.
+   * Writers are blocked while the upgradeable read lock is held.
+   */
+  readonly upgradeableReadLock: (
+    signal?: AbortSignal
+  ) => Promise<UpgradeableLockHandle>;
+
   /**
    * Acquires a write lock asynchronously
    * @param signal Optional AbortSignal for cancelling the lock acquisition
    * @returns Promise that resolves to a disposable write lock handle
    */
-  readonly writeLock: (signal?: AbortSignal) => Promise<LockHandle>;
+  readonly writeLock: (signal?: AbortSignal) => Promise<DowngradableLockHandle>;
 
   /**
    * Waiter object for reader
    */
   readonly readWaiter: Waiter;
 
+  /**
+   * Waiter object for upgradeable reader
+   */
+  readonly upgradeableReadWaiter: Waiter;
+
   /**
    * Waiter object for writer
    */
@@ -175,7 +783,12 @@ export interface ReaderWriterLock {
   /**
    * Number of currently active readers
    */
-  readonly currentReaders: number;
+  readonly currentReaders: number;
+
+  /**
+   * Indicates if an upgradeable reader currently holds the lock
+   */
+  readonly hasUpgradeableReader: boolean;
 
   /**
    * Indicates if a writer currently holds the lock
@@ -187,6 +800,11 @@ export interface ReaderWriterLock {
    */
   readonly pendingReadersCount: number;
 
+  /**
+   * Number of pending upgradeable read lock requests
+   */
+  readonly pendingUpgradeableReadersCount: number;
+
   /**
    * Number of pending write lock requests
    */
@@ -215,14 +833,34 @@ export interface Deferred<T> {
   readonly reject: (error: any) => void;
 }
 
+/**
+ * Overflow strategy of the DeferredGenerator queue
+ */
+export type DeferredGeneratorOverflow =
+  | 'block'
+  | 'drop-newest'
+  | 'drop-oldest'
+  | 'error';
+
 /**
  * Options for creating a deferred generator
  */
-export interface DeferredGeneratorOptions {
+export interface DeferredGeneratorOptions<T = unknown> {
   /**
    * Optional maximum number of items to reserve in the queue (Default: unlimited)
    */
   maxItemReserved?: number;
+  /**
+   * Optional strategy when the queue reached `maxItemReserved` (Default: 'block')
+   * @remarks 'block' waits until the queue drains, 'drop-newest' discards the yielding value,
+   * 'drop-oldest' discards the oldest queued value, and 'error' rejects the yield.
+   * Completion and error are never dropped.
+   */
+  overflow?: DeferredGeneratorOverflow;
+  /**
+   * Optional callback invoked with the value dropped by the overflow strategy
+   */
+  onDropped?: (value: T) => void;
   /**
    * Optional AbortSignal for cancelling the consumer (async iterator) wait
    */
@@ -257,6 +895,54 @@ export interface DeferredGenerator<T> {
    * @param signal Optional AbortSignal for cancelling the throw
    */
   readonly throw: (error: any, signal?: AbortSignal) => Promise<void>;
+
+  /**
+   * Number of values dropped by the overflow strategy
+   */
+  readonly droppedCount: number;
+}
+
+/**
+ * Broadcast deferred generator interface delivering every value to all subscribers
+ */
+export interface BroadcastDeferredGenerator<T> {
+  /**
+   * Subscribe to the values yielded after this call
+   * @param options Optional options for the subscriber queue, overriding the broadcaster defaults
+   * @returns An independent AsyncGenerator that yields values of type T
+   * @remarks Each subscriber has its own queue, so `maxItemReserved` and `overflow` apply per subscriber.
+   * Calling `return()` on the generator (or breaking out of `for await`) unsubscribes it.
+   * Subscribing after completion returns a generator that completes (or throws) immediately.
+   */
+  readonly subscribe: (
+    options?: DeferredGeneratorOptions<T>
+  ) => AsyncGenerator<T, void, unknown>;
+
+  /**
+   * Yield a value to all subscribers
+   * @param value The value to yield
+   * @param signal Optional AbortSignal for cancelling the yield
+   * @remarks This waits while any blocking subscriber queue is full.
+   */
+  readonly yield: (value: T, signal?: AbortSignal) => Promise<void>;
+
+  /**
+   * Complete all subscribers (equivalent to return)
+   * @param signal Optional AbortSignal for cancelling the return
+   */
+  readonly return: (signal?: AbortSignal) => Promise<void>;
+
+  /**
+   * Throw an error to all subscribers
+   * @param error The error to throw
+   * @param signal Optional AbortSignal for cancelling the throw
+   */
+  readonly throw: (error: any, signal?: AbortSignal) => Promise<void>;
+
+  /**
+   * Number of active subscribers
+   */
+  readonly subscriberCount: number;
 }
 
 /////////////////////////////////////////////////////////////
@@ -273,6 +959,136 @@ export type AsyncOperatorSource<T> =
   | Iterable<Awaitable<T>>
   | AsyncIterable<Awaitable<T>>;
 
+/**
+ * Options for `AsyncOperator.mapConcurrent()`
+ */
+export interface AsyncOperatorMapConcurrentOptions {
+  /**
+   * Maximum number of selectors running at the same time
+   */
+  readonly concurrency: number;
+  /**
+   * Whether to emit the results in source order (Default: true)
+   * @remarks When false, the results are emitted in completion order.
+   */
+  readonly ordered?: boolean;
+}
+
+/**
+ * Options for `AsyncOperator.forEachConcurrent()`
+ */
+export interface AsyncOperatorForEachConcurrentOptions {
+  /**
+   * Maximum number of actions running at the same time
+   */
+  readonly concurrency: number;
+}
+
+/**
+ * Options for `AsyncOperator.merge()`
+ */
+export interface AsyncOperatorMergeOptions {
+  /**
+   * Maximum number of sources consumed at the same time (Default: unlimited)
+   * @remarks The other sources are started when an active source completes.
+   */
+  readonly concurrency?: number;
+}
+
+/**
+ * Options for `AsyncOperator.groupByStream()` and `AsyncOperator.partition()`
+ */
+export interface AsyncOperatorStreamBufferOptions {
+  /**
+   * Maximum number of values buffered for each consumer (Default: 64)
+   * @remarks The source is not pulled while any buffer is full.
+   */
+  readonly bufferSize?: number;
+}
+
+/**
+ * Options for `AsyncOperator.throttle()`
+ */
+export interface AsyncOperatorThrottleOptions {
+  /**
+   * Whether to emit the first value of each window (Default: true)
+   */
+  readonly leading?: boolean;
+  /**
+   * Whether to emit the latest value at the end of each window (Default: false)
+   */
+  readonly trailing?: boolean;
+}
+
+/**
+ * Options for `AsyncOperator.stats()`
+ */
+export interface AsyncOperatorStatsOptions {
+  /**
+   * Percentiles to estimate, between 0 and 1 (Default: [0.5, 0.9, 0.99])
+   */
+  readonly percentiles?: readonly number[];
+}
+
+/**
+ * Result of `AsyncOperator.stats()`
+ */
+export interface AsyncOperatorStats {
+  /**
+   * Number of values
+   */
+  readonly count: number;
+  /**
+   * Arithmetic mean of the values
+   */
+  readonly mean: number;
+  /**
+   * Population variance of the values
+   */
+  readonly variance: number;
+  /**
+   * Minimum value
+   */
+  readonly min: number;
+  /**
+   * Maximum value
+   */
+  readonly max: number;
+  /**
+   * Approximate values keyed by the requested percentiles
+   */
+  readonly percentiles: Map<number, number>;
+}
+
+/**
+ * Options for `AsyncOperator.toMap()`
+ */
+export interface AsyncOperatorToMapOptions {
+  /**
+   * How to handle values with an already collected key (Default: 'throw')
+   * - 'throw': Rejects with an error
+   * - 'first': Keeps the first value
+   * - 'last': Keeps the last value
+   */
+  readonly onDuplicate?: 'throw' | 'first' | 'last';
+}
+
+/**
+ * Read-only map of values grouped by key, returned by `AsyncOperator.toLookup()`
+ * @remarks Getting a missing key returns an empty array instead of undefined.
+ */
+export interface AsyncOperatorLookup<TKey, T> extends ReadonlyMap<
+  TKey,
+  readonly T[]
+> {
+  /**
+   * Gets the values with the key
+   * @param key The key to get
+   * @returns The values in input order, or an empty array if not found
+   */
+  get(key: TKey): readonly T[];
+}
+
 /**
  * Chainable operators for asynchronously resolved collections
  * @remarks
@@ -298,6 +1114,20 @@ export interface AsyncOperator<T> extends AsyncIterable<T> {
     selector: (value: T, index: number) => Awaitable<AsyncOperatorSource<U>>
   ) => AsyncOperator<U>;
 
+  /**
+   * Projects each resolved value into a new value, running selectors concurrently
+   * @param selector Selector function for each resolved value, receiving a signal aborted on cancellation
+   * @param options Options for the concurrency and the emission order
+   * @returns A new async operator whose values are the projected results
+   * @remarks
+   * In-flight and buffered results are bounded by `concurrency`.
+   * The first error stops the source and aborts the signal passed to the in-flight selectors.
+   */
+  readonly mapConcurrent: <U>(
+    selector: (value: T, index: number, signal: AbortSignal) => Awaitable<U>,
+    options: AsyncOperatorMapConcurrentOptions
+  ) => AsyncOperator<U>;
+
   /**
    * Filters resolved values by predicate
    * @param predicate Predicate function for each resolved value
@@ -314,6 +1144,50 @@ export interface AsyncOperator<T> extends AsyncIterable<T> {
    */
   readonly concat: (...sources: AsyncOperatorSource<T>[]) => AsyncOperator<T>;
 
+  /**
+   * Merges the sequence with additional sources, emitting values as they arrive
+   */
+  readonly merge: {
+    /**
+     * Merges the sequence with additional sources, consuming all of them concurrently
+     * @param sources Additional sources to merge
+     * @returns A new async operator whose values are emitted in arrival order
+     */
+    (...sources: AsyncOperatorSource<T>[]): AsyncOperator<T>;
+
+    /**
+     * Merges the sequence with additional sources, consuming them up to the concurrency
+     * @param args Additional sources to merge, followed by the options
+     * @returns A new async operator whose values are emitted in arrival order
+     */
+    (
+      ...args: [
+        ...sources: AsyncOperatorSource<T>[],
+        options: AsyncOperatorMergeOptions,
+      ]
+    ): AsyncOperator<T>;
+  };
+
+  /**
+   * Mirrors the first source that emits a value among the sequence and additional sources
+   * @param sources Additional sources to race
+   * @returns A new async operator whose values are emitted from the winning source
+   * @remarks
+   * The other sources are cancelled when the winner emits its first value.
+   * Sources completing without values are ignored, and an error before the winner is decided rejects the iteration.
+   */
+  readonly race: (...sources: AsyncOperatorSource<T>[]) => AsyncOperator<T>;
+
+  /**
+   * Takes values from the sequence and additional sources in round-robin order
+   * @param sources Additional sources to interleave
+   * @returns A new async operator whose values are taken one by one from each source
+   * @remarks Completed sources are skipped, and the iteration completes when all sources complete.
+   */
+  readonly interleave: (
+    ...sources: AsyncOperatorSource<T>[]
+  ) => AsyncOperator<T>;
+
   /**
    * Projects each resolved value into another value and omits nullish results
    * @param selector Selector function for each resolved value
@@ -472,6 +1346,68 @@ export interface AsyncOperator<T> extends AsyncIterable<T> {
     selector: (value: T, index: number) => Awaitable<TKey>
   ) => AsyncOperator<T>;
 
+  /**
+   * Correlates each value with the matching inner values grouped into an array
+   * @param inner Inner sequence to correlate
+   * @param outerKeySelector Selector function that produces the key of the current value
+   * @param innerKeySelector Selector function that produces the key of the inner value
+   * @param resultSelector Selector function that produces the result from the value and the matching inner values
+   * @returns A new async operator with one result for each value
+   * @remarks
+   * The inner sequence is buffered into a lookup before the first value is resolved,
+   * and keys are compared by `SameValueZero`.
+   * Values without matching inner values receive an empty array.
+   */
+  readonly groupJoin: <TInner, TKey, TResult>(
+    inner: AsyncOperatorSource<TInner>,
+    outerKeySelector: (value: T, index: number) => Awaitable<TKey>,
+    innerKeySelector: (value: TInner, index: number) => Awaitable<TKey>,
+    resultSelector: (value: T, inners: TInner[]) => Awaitable<TResult>
+  ) => AsyncOperator<TResult>;
+
+  /**
+   * Correlates each value with the matching inner values, keeping values without any match
+   * @param inner Inner sequence to correlate
+   * @param outerKeySelector Selector function that produces the key of the current value
+   * @param innerKeySelector Selector function that produces the key of the inner value
+   * @param resultSelector Selector function that produces the result from the value and the matching inner value
+   * @returns A new async operator with the joined results
+   * @remarks
+   * The inner sequence is buffered into a lookup before the first value is resolved,
+   * and keys are compared by `SameValueZero`.
+   * Values without matching inner values produce one result with `undefined` as the inner value.
+   */
+  readonly leftJoin: <TInner, TKey, TResult>(
+    inner: AsyncOperatorSource<TInner>,
+    outerKeySelector: (value: T, index: number) => Awaitable<TKey>,
+    innerKeySelector: (value: TInner, index: number) => Awaitable<TKey>,
+    resultSelector: (value: T, inner: TInner | undefined) => Awaitable<TResult>
+  ) => AsyncOperator<TResult>;
+
+  /**
+   * Correlates each value with the matching inner values, keeping unmatched values of both sides
+   * @param inner Inner sequence to correlate
+   * @param outerKeySelector Selector function that produces the key of the current value
+   * @param innerKeySelector Selector function that produces the key of the inner value
+   * @param resultSelector Selector function that produces the result from the value and the matching inner value
+   * @returns A new async operator with the joined results
+   * @remarks
+   * The inner sequence is buffered into a lookup before the first value is resolved,
+   * and keys are compared by `SameValueZero`.
+   * Values without matching inner values produce one result with `undefined` as the inner value.
+   * After the current sequence completes, inner values that matched no value are produced
+   * with `undefined` as the value, grouped by key in order of first occurrence.
+   */
+  readonly fullOuterJoin: <TInner, TKey, TResult>(
+    inner: AsyncOperatorSource<TInner>,
+    outerKeySelector: (value: T, index: number) => Awaitable<TKey>,
+    innerKeySelector: (value: TInner, index: number) => Awaitable<TKey>,
+    resultSelector: (
+      value: T | undefined,
+      inner: TInner | undefined
+    ) => Awaitable<TResult>
+  ) => AsyncOperator<TResult>;
+
   /**
    * Groups resolved values into arrays of a fixed maximum size
    * @param size Maximum number of values in each chunk
@@ -542,6 +1478,175 @@ export interface AsyncOperator<T> extends AsyncIterable<T> {
     compareFn?: (left: T, right: T) => number
   ) => AsyncOperator<T>;
 
+  /**
+   * Groups values by projected key, emitting each group as a new key appears
+   * @param keySelector Selector function that produces the grouping key
+   * @param options Options for the buffering
+   * @returns A new async operator whose values are pairs of the key and the async operator of the group
+   * @remarks
+   * The source is shared by the groups and pulled on demand, so the groups should be consumed concurrently.
+   * Values are buffered up to `bufferSize` for each group, and the source is not pulled while any buffer is full.
+   * Values for the groups whose iteration has finished are discarded.
+   * The groups not iterated yet when the iteration of the groups finishes are empty,
+   * and the source is released when no started iteration remains.
+   * Each group can be iterated only once.
+   */
+  readonly groupByStream: <TKey>(
+    keySelector: (value: T, index: number) => Awaitable<TKey>,
+    options?: AsyncOperatorStreamBufferOptions
+  ) => AsyncOperator<readonly [TKey, AsyncOperator<T>]>;
+
+  /**
+   * Splits the sequence into values satisfying the predicate and the others
+   * @param predicate Predicate function for each resolved value
+   * @param options Options for the buffering
+   * @returns A pair of async operators for the matched and the unmatched values
+   * @remarks
+   * Both operators share one iteration of the source pulled on demand, so both sides must be consumed concurrently.
+   * Values are buffered up to `bufferSize` for each side, and the source is not pulled while either buffer is full.
+   * Consuming one side alone (for example awaiting `toArray()` before iterating the other side) stalls
+   * without any error once the other buffer is full, and resumes when the other side is consumed.
+   * The source is released when no started iteration remains, even if the other side is never iterated.
+   * Each operator can be iterated only once.
+   */
+  readonly partition: (
+    predicate: (value: T, index: number) => Awaitable<boolean>,
+    options?: AsyncOperatorStreamBufferOptions
+  ) => readonly [AsyncOperator<T>, AsyncOperator<T>];
+
+  /**
+   * Continues with a fallback source when the sequence fails
+   * @param handler Handler function that returns the fallback source for the error
+   * @returns A new async operator whose values are followed by the fallback values on failure
+   * @remarks The values emitted before the failure are kept.
+   */
+  readonly catchError: (
+    handler: (error: unknown) => Awaitable<AsyncOperatorSource<T>>
+  ) => AsyncOperator<T>;
+
+  /**
+   * Re-iterates the source from the beginning when the sequence fails
+   * @param countOrOptions Maximum number of retries without waiting, or options for `retry()` (Default: 3 retries with exponential backoff)
+   * @returns A new async operator that retries on failure
+   * @remarks
+   * The source must be re-iterable, and the values emitted before the failure are emitted again.
+   * When all attempts failed, rejects with `RetryError` containing the failure of each attempt.
+   * Aborting the signal in the options rejects immediately, even while an attempt is being iterated.
+   */
+  readonly retry: (countOrOptions?: number | RetryOptions) => AsyncOperator<T>;
+
+  /**
+   * Continues with the next source, ignoring the failure of the sequence and each source
+   * @param sources Sources to continue with after the sequence completes or fails
+   * @returns A new async operator whose values are emitted from each source in order
+   */
+  readonly onErrorResume: (
+    ...sources: AsyncOperatorSource<T>[]
+  ) => AsyncOperator<T>;
+
+  /**
+   * Invokes the action when the iteration ends by completion, failure or early termination
+   * @param action Action function invoked once at the end of the iteration
+   * @returns A new async operator with the same values
+   */
+  readonly finally: (action: () => Awaitable<void>) => AsyncOperator<T>;
+
+  /**
+   * Invokes side effects for each value, the failure and the completion
+   * @param onNext Optional action for each resolved value
+   * @param onError Optional action for the source error terminating the sequence, the error is rethrown
+   * @param onComplete Optional action invoked when the sequence completes
+   * @returns A new async operator with the same values
+   */
+  readonly tap: (
+    onNext?: (value: T, index: number) => Awaitable<void>,
+    onError?: (error: unknown) => Awaitable<void>,
+    onComplete?: () => Awaitable<void>
+  ) => AsyncOperator<T>;
+
+  /**
+   * Emits a value only after the specified time has passed without another value
+   * @param msec Quiet time in milliseconds
+   * @returns A new async operator whose values are the latest values of each burst
+   * @remarks The pending value is emitted when the source completes.
+   */
+  readonly debounce: (msec: number) => AsyncOperator<T>;
+
+  /**
+   * Limits the emission to at most one value per time window
+   * @param msec Window length in milliseconds
+   * @param options Options for the leading and trailing emissions
+   * @returns A new async operator whose values are throttled
+   * @remarks A trailing emission opens the next window.
+   */
+  readonly throttle: (
+    msec: number,
+    options?: AsyncOperatorThrottleOptions
+  ) => AsyncOperator<T>;
+
+  /**
+   * Rejects when the next value does not arrive in time
+   * @param msec Maximum time in milliseconds to wait for each value
+   * @returns A new async operator that rejects with `TimeoutError` on timeout
+   */
+  readonly timeout: (msec: number) => AsyncOperator<T>;
+
+  /**
+   * Emits the latest value periodically
+   * @param msec Sampling period in milliseconds
+   * @returns A new async operator whose values are sampled
+   * @remarks Nothing is emitted for a period without a new value.
+   */
+  readonly sample: (msec: number) => AsyncOperator<T>;
+
+  /**
+   * Groups values into arrays collected within the specified time
+   * @param msec Time in milliseconds from the first value of each buffer
+   * @param maxSize Optional maximum size of each buffer
+   * @returns A new async operator whose values are the buffered arrays
+   * @remarks Empty buffers are not emitted.
+   */
+  readonly bufferTime: (msec: number, maxSize?: number) => AsyncOperator<T[]>;
+
+  /**
+   * Sorts the values in ascending order of the projected key
+   * @param keySelector Selector function that produces the sort key
+   * @param comparer Optional comparison function for the keys (Default: compares with `<` and `>`)
+   * @returns A new ordered async operator, further keys can be added by `thenBy()`
+   * @remarks
+   * The sort is stable, and consumes the source before producing results.
+   * Each key is computed once for each value.
+   */
+  readonly orderBy: <TKey>(
+    keySelector: (value: T, index: number) => Awaitable<TKey>,
+    comparer?: (left: TKey, right: TKey) => number
+  ) => OrderedAsyncOperator<T>;
+
+  /**
+   * Sorts the values in descending order of the projected key
+   * @param keySelector Selector function that produces the sort key
+   * @param comparer Optional comparison function for the keys (Default: compares with `<` and `>`)
+   * @returns A new ordered async operator, further keys can be added by `thenBy()`
+   * @remarks
+   * The sort is stable, and consumes the source before producing results.
+   * Each key is computed once for each value.
+   */
+  readonly orderByDescending: <TKey>(
+    keySelector: (value: T, index: number) => Awaitable<TKey>,
+    comparer?: (left: TKey, right: TKey) => number
+  ) => OrderedAsyncOperator<T>;
+
+  /**
+   * Makes the sequence cancellable by an AbortSignal
+   * @param signal AbortSignal for cancelling the iteration
+   * @returns A new async operator that rejects when the signal is aborted
+   * @remarks
+   * When aborted, the iteration rejects promptly without waiting for the pending value,
+   * and `return()` is called on the underlying iterator.
+   * Place it just before the terminal operator to cancel the whole pipeline.
+   */
+  readonly withSignal: (signal: AbortSignal) => AsyncOperator<T>;
+
   /**
    * Executes an action for each resolved value
    * @param action Action function for each resolved value
@@ -551,6 +1656,19 @@ export interface AsyncOperator<T> extends AsyncIterable<T> {
     action: (value: T, index: number) => Awaitable<void>
   ) => Promise<void>;
 
+  /**
+   * Executes an action for each resolved value, running actions concurrently
+   * @param action Action function for each resolved value, receiving a signal aborted on cancellation
+   * @param options Options for the concurrency
+   * @returns A promise that resolves when all values have been processed
+   * @remarks
+   * The first error stops the source, aborts the signal passed to the in-flight actions and rejects the promise.
+   */
+  readonly forEachConcurrent: (
+    action: (value: T, index: number, signal: AbortSignal) => Awaitable<void>,
+    options: AsyncOperatorForEachConcurrentOptions
+  ) => Promise<void>;
+
   /**
    * Reduces the sequence to a single value
    */
@@ -743,6 +1861,78 @@ export interface AsyncOperator<T> extends AsyncIterable<T> {
     selector: (value: T, index: number) => Awaitable<TKey>
   ) => Promise<T | undefined>;
 
+  /**
+   * Counts the values
+   * @param predicate Optional predicate function, only the values satisfying it are counted
+   * @returns A promise that resolves to the number of values
+   */
+  readonly count: (
+    predicate?: (value: T, index: number) => Awaitable<boolean>
+  ) => Promise<number>;
+
+  readonly sum: {
+    /**
+     * Sums the values of a number sequence
+     * @returns A promise that resolves to the sum, or 0 for an empty sequence
+     */
+    (this: AsyncOperator<number>): Promise<number>;
+
+    /**
+     * Sums the projected numbers
+     * @param selector Selector function that produces the number to sum
+     * @returns A promise that resolves to the sum, or 0 for an empty sequence
+     */
+    (selector: (value: T, index: number) => Awaitable<number>): Promise<number>;
+  };
+
+  readonly average: {
+    /**
+     * Calculates the arithmetic mean of the values of a number sequence
+     * @returns A promise that resolves to the mean, or undefined for an empty sequence
+     */
+    (this: AsyncOperator<number>): Promise<number | undefined>;
+
+    /**
+     * Calculates the arithmetic mean of the projected numbers
+     * @param selector Selector function that produces the number to average
+     * @returns A promise that resolves to the mean, or undefined for an empty sequence
+     */
+    (
+      selector: (value: T, index: number) => Awaitable<number>
+    ): Promise<number | undefined>;
+  };
+
+  readonly stats: {
+    /**
+     * Calculates the statistics of the values of a number sequence in a single pass
+     * @param selector Must be omitted or undefined
+     * @param options Optional options for the statistics
+     * @returns A promise that resolves to the statistics, or undefined for an empty sequence
+     * @remarks
+     * The values are not materialized, and the memory usage does not depend on the sequence length.
+     * Percentiles are estimated by the P-square algorithm, so they are exact only for up to five values.
+     */
+    (
+      this: AsyncOperator<number>,
+      selector?: undefined,
+      options?: AsyncOperatorStatsOptions
+    ): Promise<AsyncOperatorStats | undefined>;
+
+    /**
+     * Calculates the statistics of the projected numbers in a single pass
+     * @param selector Selector function that produces the number to aggregate
+     * @param options Optional options for the statistics
+     * @returns A promise that resolves to the statistics, or undefined for an empty sequence
+     * @remarks
+     * The values are not materialized, and the memory usage does not depend on the sequence length.
+     * Percentiles are estimated by the P-square algorithm, so they are exact only for up to five values.
+     */
+    (
+      selector: (value: T, index: number) => Awaitable<number>,
+      options?: AsyncOperatorStatsOptions
+    ): Promise<AsyncOperatorStats | undefined>;
+  };
+
   /**
    * Groups values by projected key
    * @param selector Selector function that produces the grouping key
@@ -761,20 +1951,111 @@ export interface AsyncOperator<T> extends AsyncIterable<T> {
     selector: (value: T, index: number) => Awaitable<TKey>
   ) => Promise<Map<TKey, number>>;
 
-  /**
-   * Concatenates the resolved values into a string
-   * @param separator String used to separate adjacent values
-   * @returns A promise that resolves to the concatenated string
-   * @remarks
-   * `null` and `undefined` values contribute empty strings, matching `Array.prototype.join`.
-   */
-  readonly join: (separator?: string) => Promise<string>;
+  readonly join: {
+    /**
+     * Concatenates the resolved values into a string
+     * @param separator String used to separate adjacent values
+     * @returns A promise that resolves to the concatenated string
+     * @remarks
+     * `null` and `undefined` values contribute empty strings, matching `Array.prototype.join`.
+     */
+    (separator?: string): Promise<string>;
+
+    /**
+     * Correlates each value with the matching inner values
+     * @param inner Inner sequence to correlate
+     * @param outerKeySelector Selector function that produces the key of the current value
+     * @param innerKeySelector Selector function that produces the key of the inner value
+     * @param resultSelector Selector function that produces the result from the value and the matching inner value
+     * @returns A new async operator with one result for each matching pair
+     * @remarks
+     * The inner sequence is buffered into a lookup before the first value is resolved,
+     * and keys are compared by `SameValueZero`.
+     * Values without matching inner values are skipped.
+     */
+    <TInner, TKey, TResult>(
+      inner: AsyncOperatorSource<TInner>,
+      outerKeySelector: (value: T, index: number) => Awaitable<TKey>,
+      innerKeySelector: (value: TInner, index: number) => Awaitable<TKey>,
+      resultSelector: (value: T, inner: TInner) => Awaitable<TResult>
+    ): AsyncOperator<TResult>;
+  };
 
   /**
    * Resolves the sequence into an array
    * @returns A promise that resolves to an array of values in input order
    */
   readonly toArray: () => Promise<T[]>;
+
+  /**
+   * Resolves the sequence into a map
+   * @param keySelector Selector function that produces the key
+   * @param valueSelector Optional selector function that produces the value, the values themselves are used when omitted
+   * @param options Optional options for handling duplicate keys
+   * @returns A promise that resolves to the map in order of first occurrence of each key
+   */
+  readonly toMap: <TKey, TValue = T>(
+    keySelector: (value: T, index: number) => Awaitable<TKey>,
+    valueSelector?: (value: T, index: number) => Awaitable<TValue>,
+    options?: AsyncOperatorToMapOptions
+  ) => Promise<Map<TKey, TValue>>;
+
+  /**
+   * Resolves the sequence into a set
+   * @returns A promise that resolves to the set of distinct values in order of first occurrence
+   */
+  readonly toSet: () => Promise<Set<T>>;
+
+  /**
+   * Resolves the sequence into a plain object
+   * @param keySelector Selector function that produces the property key
+   * @param valueSelector Selector function that produces the property value
+   * @returns A promise that resolves to the object
+   * @remarks
+   * Duplicate keys keep the last value, matching `Object.fromEntries()`.
+   */
+  readonly toObject: <TKey extends PropertyKey, TValue>(
+    keySelector: (value: T, index: number) => Awaitable<TKey>,
+    valueSelector: (value: T, index: number) => Awaitable<TValue>
+  ) => Promise<Record<TKey, TValue>>;
+
+  /**
+   * Resolves the sequence into a read-only lookup grouped by key
+   * @param keySelector Selector function that produces the grouping key
+   * @returns A promise that resolves to the lookup in order of first occurrence of each key
+   * @remarks
+   * Unlike `groupBy()`, getting a missing key returns an empty array.
+   */
+  readonly toLookup: <TKey>(
+    keySelector: (value: T, index: number) => Awaitable<TKey>
+  ) => Promise<AsyncOperatorLookup<TKey, T>>;
+}
+
+/**
+ * Async operator sorted by `orderBy()` or `orderByDescending()`
+ */
+export interface OrderedAsyncOperator<T> extends AsyncOperator<T> {
+  /**
+   * Sorts the values with equal preceding keys in ascending order of the projected key
+   * @param keySelector Selector function that produces the subsequent sort key
+   * @param comparer Optional comparison function for the keys (Default: compares with `<` and `>`)
+   * @returns A new ordered async operator
+   */
+  readonly thenBy: <TKey>(
+    keySelector: (value: T, index: number) => Awaitable<TKey>,
+    comparer?: (left: TKey, right: TKey) => number
+  ) => OrderedAsyncOperator<T>;
+
+  /**
+   * Sorts the values with equal preceding keys in descending order of the projected key
+   * @param keySelector Selector function that produces the subsequent sort key
+   * @param comparer Optional comparison function for the keys (Default: compares with `<` and `>`)
+   * @returns A new ordered async operator
+   */
+  readonly thenByDescending: <TKey>(
+    keySelector: (value: T, index: number) => Awaitable<TKey>,
+    comparer?: (left: TKey, right: TKey) => number
+  ) => OrderedAsyncOperator<T>;
 }
 
 /////////////////////////////////////////////////////////////
@@ -3,8 +3,38 @@
  * These tests verify lazy async collection operators built from iterable values and promises
  */
 
-import { describe, it, expect } from 'vitest';
-import { createDeferred, delay, from } from '../src/index.js';
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  createDeferred,
+  createVirtualClock,
+  deferFrom,
+  delay,
+  empty,
+  from,
+  generate,
+  interval,
+  range,
+  repeat,
+  RetryError,
+  setClock,
+  throwError,
+  TimeoutError,
+} from '../src/index.js';
+
+// Creates a source emitting each value at the virtual time, then completing at the end time
+const createTimedSource = <T>(
+  entries: readonly (readonly [number, T])[],
+  endAt: number
+) =>
+  (async function* () {
+    let now = 0;
+    for (const [at, value] of entries) {
+      await delay(at - now);
+      now = at;
+      yield value;
+    }
+    await delay(endAt - now);
+  })();
 
 describe('AsyncOperator', () => {
   describe('toArray', () => {
@@ -523,6 +553,95 @@ describe('AsyncOperator', () => {
       expect(exceptByValues).toEqual(['alice', 'charlie']);
     });
 
+    it('should support join, groupJoin, leftJoin and fullOuterJoin', async () => {
+      const users = [
+        { id: 1, name: 'alice' },
+        { id: 2, name: 'bob' },
+        { id: 3, name: 'charlie' },
+      ];
+      const orders = async function* () {
+        yield { userId: 1, item: 'apple' };
+        yield { userId: 4, item: 'melon' };
+        yield Promise.resolve({ userId: 1, item: 'banana' });
+        yield { userId: 2, item: 'cherry' };
+      };
+
+      const joined = await from(users)
+        .join(
+          orders(),
+          (user) => user.id,
+          async (order) => order.userId,
+          (user, order) => `${user.name}:${order.item}`
+        )
+        .toArray();
+
+      const groupJoined = await from(users)
+        .groupJoin(
+          orders(),
+          (user) => user.id,
+          (order) => order.userId,
+          (user, userOrders) => [
+            user.name,
+            userOrders.map((order) => order.item),
+          ]
+        )
+        .toArray();
+
+      const leftJoined = await from(users)
+        .leftJoin(
+          orders(),
+          (user) => user.id,
+          (order) => order.userId,
+          (user, order) => `${user.name}:${order?.item ?? '-'}`
+        )
+        .toArray();
+
+      const fullOuterJoined = await from(users)
+        .fullOuterJoin(
+          orders(),
+          (user) => user.id,
+          (order) => order.userId,
+          async (user, order) => `${user?.name ?? '-'}:${order?.item ?? '-'}`
+        )
+        .toArray();
+
+      expect(joined).toEqual(['alice:apple', 'alice:banana', 'bob:cherry']);
+      expect(groupJoined).toEqual([
+        ['alice', ['apple', 'banana']],
+        ['bob', ['cherry']],
+        ['charlie', []],
+      ]);
+      expect(leftJoined).toEqual([
+        'alice:apple',
+        'alice:banana',
+        'bob:cherry',
+        'charlie:-',
+      ]);
+      expect(fullOuterJoined).toEqual([
+        'alice:apple',
+        'alice:banana',
+        'bob:cherry',
+        'charlie:-',
+        '-:melon',
+      ]);
+    });
+
+    it('should compare join keys by SameValueZero', async () => {
+      const joined = await from([NaN, 0, 1])
+        .join(
+          [-0, NaN, 2],
+          (value) => value,
+          (value) => value,
+          (outer, inner) => [outer, inner]
+        )
+        .toArray();
+
+      expect(joined).toEqual([
+        [NaN, NaN],
+        [0, -0],
+      ]);
+    });
+
     it('should support chunkBySize and windowed', async () => {
       const chunks = await from([1, 2, 3, 4, 5]).chunkBySize(2).toArray();
       const windows = await from([1, 2, 3, 4]).windowed(3).toArray();
@@ -599,6 +718,1065 @@ describe('AsyncOperator', () => {
       expect(reverseSource).toEqual([1, 2, 3]);
       expect(sortSource).toEqual([20, 3, 100]);
     });
+
+    it('should support orderBy and orderByDescending with async key selectors', async () => {
+      const ascending = await from([30, 10, 20])
+        .orderBy(async (value) => {
+          await delay(1);
+          return value;
+        })
+        .toArray();
+      const descending = await from(['bb', 'a', 'ccc'])
+        .orderByDescending((value) => value.length)
+        .toArray();
+
+      expect(ascending).toEqual([10, 20, 30]);
+      expect(descending).toEqual(['ccc', 'bb', 'a']);
+    });
+
+    it('should sort by multiple keys with thenBy and thenByDescending', async () => {
+      const people = [
+        { name: 'carol', dept: 'b', age: 30 },
+        { name: 'alice', dept: 'a', age: 30 },
+        { name: 'dave', dept: 'b', age: 25 },
+        { name: 'bob', dept: 'a', age: 40 },
+        { name: 'eve', dept: 'b', age: 30 },
+      ];
+
+      const actual = await from(people)
+        .orderBy((person) => person.dept)
+        .thenByDescending((person) => person.age)
+        .thenBy(async (person) => person.name)
+        .toArray();
+
+      expect(actual.map((person) => person.name)).toEqual([
+        'bob',
+        'alice',
+        'carol',
+        'eve',
+        'dave',
+      ]);
+    });
+
+    it('should keep the source order for equal keys and accept custom comparers', async () => {
+      const values = ['b1', 'a1', 'b2', 'a2', 'b3'];
+
+      const stable = await from(values)
+        .orderByDescending((value) => value[0])
+        .toArray();
+      const custom = await from(values)
+        .orderBy(
+          (value) => value,
+          (left, right) => right.localeCompare(left)
+        )
+        .toArray();
+
+      expect(stable).toEqual(['b1', 'b2', 'b3', 'a1', 'a2']);
+      expect(custom).toEqual(['b3', 'b2', 'b1', 'a2', 'a1']);
+    });
+  });
+
+  describe('concurrent operators', () => {
+    it('should preserve source order in ordered mapConcurrent', async () => {
+      let running = 0;
+      let maxRunning = 0;
+
+      const actual = await from([30, 5, 20, 1, 10])
+        .mapConcurrent(
+          async (value, index) => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await delay(value);
+            running--;
+            return `${index}:${value}`;
+          },
+          { concurrency: 2 }
+        )
+        .toArray();
+
+      expect(actual).toEqual(['0:30', '1:5', '2:20', '3:1', '4:10']);
+      expect(maxRunning).toBe(2);
+    });
+
+    it('should emit in completion order in unordered mapConcurrent', async () => {
+      const actual = await from([30, 1, 15])
+        .mapConcurrent(
+          async (value) => {
+            await delay(value);
+            return value;
+          },
+          { concurrency: 3, ordered: false }
+        )
+        .toArray();
+
+      expect(actual).toEqual([1, 15, 30]);
+    });
+
+    it('should stop the source and abort in-flight selectors on the first error', async () => {
+      const pulled: number[] = [];
+      const aborted: number[] = [];
+      const createSource = async function* () {
+        for (let value = 0; value < 10; value++) {
+          pulled.push(value);
+          yield value;
+        }
+      };
+
+      await expect(
+        from(createSource())
+          .mapConcurrent(
+            (value, _index, signal) =>
+              new Promise<number>((resolve, reject) => {
+                if (value === 1) {
+                  setTimeout(() => reject(new Error('boom')), 5);
+                  return;
+                }
+                signal.addEventListener('abort', () => {
+                  aborted.push(value);
+                  reject(new Error('aborted'));
+                });
+              }),
+            { concurrency: 3 }
+          )
+          .toArray()
+      ).rejects.toThrow('boom');
+
+      expect(pulled).toEqual([0, 1, 2]);
+      expect(aborted).toEqual([0, 2]);
+    });
+
+    it('should abort in-flight selectors when the consumer stops early', async () => {
+      const aborted: number[] = [];
+
+      const actual = await from([1, 2, 3, 4])
+        .mapConcurrent(
+          (value, _index, signal) =>
+            value === 1
+              ? value
+              : new Promise<number>((resolve) => {
+                  signal.addEventListener('abort', () => {
+                    aborted.push(value);
+                    resolve(value);
+                  });
+                }),
+          { concurrency: 2 }
+        )
+        .take(1)
+        .toArray();
+
+      expect(actual).toEqual([1]);
+      expect(aborted).toEqual([2]);
+    });
+
+    it('should emit completed results while the source is slow', async () => {
+      const createSource = async function* () {
+        yield 1;
+        await delay(300);
+        yield 2;
+      };
+
+      const iterator = from(createSource())
+        .mapConcurrent((value) => value * 10, { concurrency: 2 })
+        [Symbol.asyncIterator]();
+
+      const startedAt = Date.now();
+      expect(await iterator.next()).toEqual({ value: 10, done: false });
+      expect(Date.now() - startedAt).toBeLessThan(200);
+
+      await iterator.return?.();
+    });
+
+    it('should report a selector error while the source is idle', async () => {
+      const createSource = async function* () {
+        yield 1;
+        // Never produce the next value
+        await new Promise<void>(() => {});
+      };
+
+      await expect(
+        from(createSource()).forEachConcurrent(
+          () => {
+            throw new Error('boom');
+          },
+          { concurrency: 2 }
+        )
+      ).rejects.toThrow('boom');
+    });
+
+    it('should run forEachConcurrent with bounded concurrency', async () => {
+      const visited: string[] = [];
+      let running = 0;
+      let maxRunning = 0;
+
+      await from([20, 1, 10, 5]).forEachConcurrent(
+        async (value, index) => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await delay(value);
+          running--;
+          visited.push(`${index}:${value}`);
+        },
+        { concurrency: 2 }
+      );
+
+      expect(visited.sort()).toEqual(['0:20', '1:1', '2:10', '3:5']);
+      expect(maxRunning).toBe(2);
+    });
+
+    it('should reject forEachConcurrent with the first error', async () => {
+      await expect(
+        from([1, 2, 3]).forEachConcurrent(
+          async (value) => {
+            await delay(value);
+            if (value === 2) {
+              throw new Error('failed at 2');
+            }
+          },
+          { concurrency: 3 }
+        )
+      ).rejects.toThrow('failed at 2');
+    });
+
+    it('should reject invalid concurrency', async () => {
+      await expect(
+        from([1])
+          .mapConcurrent((value) => value, { concurrency: 0 })
+          .toArray()
+      ).rejects.toThrow('Concurrency must be greater than 0');
+    });
+  });
+
+  describe('combining operators', () => {
+    afterEach(() => {
+      setClock(undefined);
+    });
+
+    it('should merge values in arrival order', async () => {
+      const clock = createVirtualClock();
+      setClock(clock);
+
+      const promise = from(
+        createTimedSource(
+          [
+            [0, 'a0'],
+            [20, 'a20'],
+          ],
+          20
+        )
+      )
+        .merge(
+          createTimedSource(
+            [
+              [10, 'b10'],
+              [30, 'b30'],
+            ],
+            30
+          ),
+          ['c']
+        )
+        .toArray();
+      await clock.runAll();
+
+      expect(await promise).toEqual(['c', 'a0', 'b10', 'a20', 'b30']);
+    });
+
+    it('should limit the number of sources consumed by merge', async () => {
+      const clock = createVirtualClock();
+      setClock(clock);
+
+      const promise = from(
+        createTimedSource(
+          [
+            [0, 'a0'],
+            [20, 'a20'],
+          ],
+          20
+        )
+      )
+        .merge(
+          createTimedSource(
+            [
+              [5, 'b5'],
+              [10, 'b10'],
+            ],
+            10
+          ),
+          createTimedSource([[1, 'c1']], 1),
+          { concurrency: 2 }
+        )
+        .toArray();
+      await clock.runAll();
+
+      // The third source starts after the second source completes at 10
+      expect(await promise).toEqual(['a0', 'b5', 'b10', 'c1', 'a20']);
+    });
+
+    it('should clean up every merged source on early termination and error', async () => {
+      const finalized: string[] = [];
+      const createSource = async function* (name: string, fail: boolean) {
+        try {
+          yield `${name}0`;
+          await delay(5);
+          if (fail) {
+            throw new Error(`${name} failed`);
+          }
+          await delay(20);
+          yield `${name}1`;
+        } finally {
+          finalized.push(name);
+        }
+      };
+
+      const taken = await from(createSource('a', false))
+        .merge(createSource('b', false))
+        .take(2)
+        .toArray();
+      await delay(40);
+
+      expect(taken).toEqual(['a0', 'b0']);
+      expect(finalized.sort()).toEqual(['a', 'b']);
+
+      finalized.length = 0;
+      await expect(
+        from(createSource('a', false)).merge(createSource('b', true)).toArray()
+      ).rejects.toThrow('b failed');
+      await delay(40);
+
+      expect(finalized.sort()).toEqual(['a', 'b']);
+    });
+
+    it('should observe each pending next() of the merged sources only once', async () => {
+      const slow = async function* () {
+        await delay(20);
+        yield 0;
+      };
+
+      // Count the reactions attached to each promise while merging
+      const observed = new Map<Promise<unknown>, number>();
+      const then = Promise.prototype.then;
+      Promise.prototype.then = function (
+        this: Promise<unknown>,
+        ...args: Parameters<Promise<unknown>['then']>
+      ) {
+        observed.set(this, (observed.get(this) ?? 0) + 1);
+        return then.apply(this, args);
+      } as typeof then;
+      let actual: number[];
+      try {
+        actual = await from(slow()).merge([1, 2, 3, 4, 5]).toArray();
+      } finally {
+        Promise.prototype.then = then;
+      }
+
+      expect(actual).toEqual([1, 2, 3, 4, 5, 0]);
+      expect(Math.max(...observed.values())).toBe(1);
+    });
+
+    it('should mirror the first source emitting a value with race', async () => {
+      const clock = createVirtualClock();
+      setClock(clock);
+      const finalized: string[] = [];
+      const createSource = async function* (name: string, at: number) {
+        try {
+          await delay(at);
+          yield `${name}1`;
+          await delay(at);
+          yield `${name}2`;
+        } finally {
+          finalized.push(name);
+        }
+      };
+
+      const promise = from(createSource('slow', 20))
+        .race(createSource('fast', 10), [])
+        .toArray();
+      await clock.runAll();
+
+      expect(await promise).toEqual(['fast1', 'fast2']);
+      expect(finalized.sort()).toEqual(['fast', 'slow']);
+    });
+
+    it('should reject race when a source fails before the winner is decided', async () => {
+      const failing = async function* () {
+        await delay(1);
+        throw new Error('failed');
+      };
+      const slow = async function* () {
+        await delay(50);
+        yield 1;
+      };
+
+      await expect(from(slow()).race(failing()).toArray()).rejects.toThrow(
+        'failed'
+      );
+    });
+
+    it('should take values in round-robin order with interleave', async () => {
+      const actual = await from([1, 2, 3])
+        .interleave([10, 20], [Promise.resolve(100)])
+        .toArray();
+
+      expect(actual).toEqual([1, 10, 100, 2, 20, 3]);
+    });
+
+    it('should clean up every interleaved source on early termination', async () => {
+      const finalized: string[] = [];
+      const createSource = async function* (name: string) {
+        try {
+          yield `${name}0`;
+          yield `${name}1`;
+        } finally {
+          finalized.push(name);
+        }
+      };
+
+      const actual = await from(createSource('a'))
+        .interleave(createSource('b'), createSource('c'))
+        .take(2)
+        .toArray();
+
+      expect(actual).toEqual(['a0', 'b0']);
+      expect(finalized.sort()).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('error-handling operators', () => {
+    const createFailingSource = async function* (
+      values: readonly number[],
+      message: string
+    ) {
+      for (const value of values) {
+        yield value;
+      }
+      throw new Error(message);
+    };
+
+    it('should switch to the fallback source with catchError', async () => {
+      const errors: unknown[] = [];
+
+      const actual = await from(createFailingSource([1, 2], 'failed'))
+        .catchError(async (error) => {
+          errors.push(error);
+          return [Promise.resolve(10), 20];
+        })
+        .toArray();
+
+      expect(actual).toEqual([1, 2, 10, 20]);
+      expect(errors).toHaveLength(1);
+      expect((errors[0] as Error).message).toBe('failed');
+    });
+
+    it('should catch errors raised by upstream selectors', async () => {
+      const actual = await from([1, 2, 3])
+        .map((value) => {
+          if (value === 2) {
+            throw new Error('bad value');
+          }
+          return value;
+        })
+        .catchError(() => [-1])
+        .toArray();
+
+      expect(actual).toEqual([1, -1]);
+    });
+
+    it('should re-iterate the source with retry', async () => {
+      let attempts = 0;
+      const source = {
+        [Symbol.asyncIterator]: async function* () {
+          attempts++;
+          yield attempts;
+          if (attempts < 3) {
+            throw new Error(`failed ${attempts}`);
+          }
+        },
+      };
+
+      const actual = await from(source).retry(2).toArray();
+
+      expect(actual).toEqual([1, 2, 3]);
+      expect(attempts).toBe(3);
+    });
+
+    it('should reject with RetryError when all retries failed', async () => {
+      const retried: number[] = [];
+      const source = {
+        [Symbol.asyncIterator]: () => createFailingSource([], 'always'),
+      };
+
+      const error = await from(source)
+        .retry({
+          retries: 2,
+          backoff: 'fixed',
+          baseMs: 1,
+          onRetry: (_error, attempt) => retried.push(attempt),
+        })
+        .toArray()
+        .catch((error: unknown) => error);
+
+      expect(error).toBeInstanceOf(RetryError);
+      expect((error as RetryError).errors).toHaveLength(3);
+      expect(retried).toEqual([1, 2]);
+    });
+
+    it('should rethrow the failure as is when shouldRetry returns false', async () => {
+      const source = {
+        [Symbol.asyncIterator]: () => createFailingSource([1], 'fatal'),
+      };
+
+      await expect(
+        from(source)
+          .retry({ shouldRetry: () => false })
+          .toArray()
+      ).rejects.toThrow('fatal');
+    });
+
+    it('should reject promptly when aborted while iterating an attempt', async () => {
+      const controller = new AbortController();
+      let finalized = false;
+      const source = {
+        [Symbol.asyncIterator]: async function* () {
+          try {
+            yield 1;
+            await delay(50);
+            yield 2;
+          } finally {
+            finalized = true;
+          }
+        },
+      };
+
+      const visited: number[] = [];
+      const promise = from(source)
+        .retry({ signal: controller.signal })
+        .forEach((value) => {
+          visited.push(value);
+          setTimeout(() => controller.abort(), 5);
+        });
+
+      const startedAt = Date.now();
+      await expect(promise).rejects.toThrow('Retry was aborted');
+      expect(Date.now() - startedAt).toBeLessThan(40);
+      expect(visited).toEqual([1]);
+
+      await delay(60);
+      expect(finalized).toBe(true);
+    });
+
+    it('should reject invalid retry counts with RangeError', async () => {
+      await expect(from([1]).retry(-1).toArray()).rejects.toThrow(
+        new RangeError('Retry count must be 0 or greater')
+      );
+    });
+
+    it('should continue with the next sources ignoring failures with onErrorResume', async () => {
+      const actual = await from(createFailingSource([1, 2], 'first'))
+        .onErrorResume(createFailingSource([3], 'second'), [4, 5])
+        .toArray();
+
+      expect(actual).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should invoke the finally action on completion, failure and early termination', async () => {
+      const results: string[] = [];
+
+      await from([1, 2, 3])
+        .finally(() => {
+          results.push('completed');
+        })
+        .toArray();
+      await expect(
+        from(createFailingSource([1], 'failed'))
+          .finally(async () => {
+            await delay(1);
+            results.push('failed');
+          })
+          .toArray()
+      ).rejects.toThrow('failed');
+      await from([1, 2, 3])
+        .finally(() => {
+          results.push('terminated');
+        })
+        .take(1)
+        .toArray();
+
+      expect(results).toEqual(['completed', 'failed', 'terminated']);
+    });
+
+    it('should invoke tap callbacks without changing the values', async () => {
+      const results: string[] = [];
+
+      const actual = await from([1, 2])
+        .tap(
+          (value, index) => {
+            results.push(`next ${index}:${value}`);
+          },
+          () => {
+            results.push('error');
+          },
+          () => {
+            results.push('complete');
+          }
+        )
+        .toArray();
+
+      await expect(
+        from(createFailingSource([1], 'failed'))
+          .tap(undefined, async (error) => {
+            results.push(`error ${(error as Error).message}`);
+          })
+          .toArray()
+      ).rejects.toThrow('failed');
+
+      expect(actual).toEqual([1, 2]);
+      expect(results).toEqual([
+        'next 0:1',
+        'next 1:2',
+        'complete',
+        'error failed',
+      ]);
+    });
+
+    it('should not pass the onNext failure of tap to onError', async () => {
+      const results: string[] = [];
+
+      await expect(
+        from([1, 2])
+          .tap(
+            (value) => {
+              results.push(`next ${value}`);
+              throw new Error('next failed');
+            },
+            () => {
+              results.push('error');
+            },
+            () => {
+              results.push('complete');
+            }
+          )
+          .toArray()
+      ).rejects.toThrow('next failed');
+
+      expect(results).toEqual(['next 1']);
+    });
+  });
+
+  describe('streaming grouping operators', () => {
+    it('should emit groups as new keys appear with groupByStream', async () => {
+      const results: [number, Promise<number[]>][] = [];
+
+      for await (const [key, group] of from([
+        1, 2, 3, 4, 5, 6, 7,
+      ]).groupByStream((value) => value % 3)) {
+        results.push([key, group.toArray()]);
+      }
+
+      expect(results.map(([key]) => key)).toEqual([1, 2, 0]);
+      expect(await Promise.all(results.map(([, values]) => values))).toEqual([
+        [1, 4, 7],
+        [2, 5],
+        [3, 6],
+      ]);
+    });
+
+    it('should support infinite sources and release the source after all consumers finished', async () => {
+      let finalized = false;
+      const createSource = async function* () {
+        try {
+          for (let value = 0; ; value++) {
+            yield value;
+          }
+        } finally {
+          finalized = true;
+        }
+      };
+
+      const groups = await from(createSource())
+        .groupByStream((value) => (value % 2 === 0 ? 'even' : 'odd'))
+        .take(2)
+        .map(async ([key, group]) => [key, await group.take(3).toArray()])
+        .toArray();
+
+      expect(groups).toEqual([
+        ['even', [0, 2, 4]],
+        ['odd', [1, 3, 5]],
+      ]);
+      expect(finalized).toBe(true);
+    });
+
+    it('should release the groups never iterated and the source when the groups consumer finished', async () => {
+      let finalized = false;
+      const createSource = async function* () {
+        try {
+          for (let value = 0; ; value++) {
+            yield value;
+          }
+        } finally {
+          finalized = true;
+        }
+      };
+
+      const groups = await from(createSource())
+        .groupByStream((value) => value % 3)
+        .take(2)
+        .toArray();
+
+      expect(groups.map(([key]) => key)).toEqual([0, 1]);
+      expect(finalized).toBe(true);
+      expect(await groups[0]![1].toArray()).toEqual([]);
+    });
+
+    it('should stop pulling the source while a group buffer is full', async () => {
+      let pulled = 0;
+      const createSource = async function* () {
+        for (let value = 0; value < 10; value++) {
+          pulled++;
+          yield value;
+        }
+      };
+
+      const iterator = from(createSource())
+        .groupByStream((value) => value % 2, { bufferSize: 2 })
+        [Symbol.asyncIterator]();
+      const evenGroup = await iterator.next();
+      const oddGroup = await iterator.next();
+
+      const even = evenGroup.value![1].toArray();
+      await delay(10);
+
+      // The odd group buffers 1 and 3, then the source is not pulled anymore
+      expect(pulled).toBe(4);
+
+      const odd = await oddGroup.value![1].toArray();
+      expect(await even).toEqual([0, 2, 4, 6, 8]);
+      expect(odd).toEqual([1, 3, 5, 7, 9]);
+      expect((await iterator.next()).done).toBe(true);
+    });
+
+    it('should split values into matched and unmatched operators with partition', async () => {
+      const [even, odd] = from([1, 2, 3, 4, 5, 6]).partition(
+        async (value) => value % 2 === 0
+      );
+
+      const evenValues = await even.toArray();
+      const oddValues = await odd.toArray();
+
+      expect(evenValues).toEqual([2, 4, 6]);
+      expect(oddValues).toEqual([1, 3, 5]);
+    });
+
+    it('should stall one side of partition until the other side is consumed', async () => {
+      const [even, odd] = range(0, 20).partition((value) => value % 2 === 0, {
+        bufferSize: 2,
+      });
+
+      // Consuming one side alone stalls once the other buffer is full
+      let evenValues: number[] | undefined;
+      const evenPromise = even.toArray().then((values) => {
+        evenValues = values;
+      });
+      await delay(10);
+      expect(evenValues).toBeUndefined();
+
+      const oddValues = await odd.toArray();
+      await evenPromise;
+      expect(evenValues).toEqual([0, 2, 4, 6, 8, 10, 12, 14, 16, 18]);
+      expect(oddValues).toEqual([1, 3, 5, 7, 9, 11, 13, 15, 17, 19]);
+    });
+
+    it('should release the source when the only iterated side of partition finished', async () => {
+      let finalized = false;
+      const createSource = async function* () {
+        try {
+          for (let value = 0; ; value++) {
+            yield value;
+          }
+        } finally {
+          finalized = true;
+        }
+      };
+
+      const [even] = from(createSource()).partition((value) => value % 2 === 0);
+
+      expect(await even.take(2).toArray()).toEqual([0, 2]);
+      expect(finalized).toBe(true);
+    });
+
+    it('should propagate the source error to both sides of partition', async () => {
+      const createSource = async function* () {
+        yield 1;
+        yield 2;
+        throw new Error('failed');
+      };
+
+      const [even, odd] = from(createSource()).partition(
+        (value) => value % 2 === 0
+      );
+
+      await expect(
+        Promise.all([even.toArray(), odd.toArray()])
+      ).rejects.toThrow('failed');
+      await expect(odd.toArray()).rejects.toThrow('failed');
+    });
+  });
+
+  describe('time-based operators', () => {
+    afterEach(() => {
+      setClock(undefined);
+    });
+
+    it('should emit the latest value of each burst with debounce', async () => {
+      const clock = createVirtualClock();
+      setClock(clock);
+
+      const promise = from(
+        createTimedSource(
+          [
+            [0, 1],
+            [5, 2],
+            [30, 3],
+            [35, 4],
+          ],
+          60
+        )
+      )
+        .debounce(10)
+        .toArray();
+      await clock.runAll();
+
+      expect(await promise).toEqual([2, 4]);
+    });
+
+    it('should emit the pending value when the source completes with debounce', async () => {
+      const clock = createVirtualClock();
+      setClock(clock);
+
+      const promise = from(
+        createTimedSource(
+          [
+            [0, 1],
+            [3, 2],
+          ],
+          5
+        )
+      )
+        .debounce(10)
+        .toArray();
+      await clock.runAll();
+
+      expect(await promise).toEqual([2]);
+    });
+
+    it('should emit the leading value of each window with throttle', async () => {
+      const clock = createVirtualClock();
+      setClock(clock);
+
+      const promise = from(
+        createTimedSource(
+          [
+            [0, 1],
+            [3, 2],
+            [6, 3],
+            [15, 4],
+            [18, 5],
+            [40, 6],
+          ],
+          45
+        )
+      )
+        .throttle(10)
+        .toArray();
+      await clock.runAll();
+
+      expect(await promise).toEqual([1, 4, 6]);
+    });
+
+    it('should emit the trailing value of each window with throttle', async () => {
+      const clock = createVirtualClock();
+      setClock(clock);
+
+      const promise = from(
+        createTimedSource(
+          [
+            [0, 1],
+            [3, 2],
+            [6, 3],
+            [15, 4],
+            [18, 5],
+            [40, 6],
+          ],
+          45
+        )
+      )
+        .throttle(10, { leading: false, trailing: true })
+        .toArray();
+      await clock.runAll();
+
+      expect(await promise).toEqual([3, 5, 6]);
+    });
+
+    it('should reject with TimeoutError when the next value does not arrive in time', async () => {
+      const clock = createVirtualClock();
+      setClock(clock);
+      const values: number[] = [];
+
+      const assertion = expect(
+        from(
+          createTimedSource(
+            [
+              [0, 1],
+              [5, 2],
+              [30, 3],
+            ],
+            30
+          )
+        )
+          .timeout(10)
+          .forEach((value) => {
+            values.push(value);
+          })
+      ).rejects.toBeInstanceOf(TimeoutError);
+      await clock.runAll();
+      await assertion;
+
+      expect(values).toEqual([1, 2]);
+    });
+
+    it('should emit the latest value of each period with sample', async () => {
+      const clock = createVirtualClock();
+      setClock(clock);
+
+      const promise = from(
+        createTimedSource(
+          [
+            [0, 1],
+            [3, 2],
+            [12, 3],
+            [25, 4],
+            [27, 5],
+          ],
+          45
+        )
+      )
+        .sample(10)
+        .toArray();
+      await clock.runAll();
+
+      expect(await promise).toEqual([2, 3, 5]);
+    });
+
+    it('should group values by time and size with bufferTime', async () => {
+      const entries = [
+        [0, 1],
+        [3, 2],
+        [12, 3],
+        [30, 4],
+        [31, 5],
+        [32, 6],
+      ] as const;
+
+      const clock = createVirtualClock();
+      setClock(clock);
+
+      const byTime = from(createTimedSource(entries, 35))
+        .bufferTime(10)
+        .toArray();
+      await clock.runAll();
+      expect(await byTime).toEqual([[1, 2], [3], [4, 5, 6]]);
+
+      const bySize = from(createTimedSource(entries, 35))
+        .bufferTime(10, 2)
+        .toArray();
+      await clock.runAll();
+      expect(await bySize).toEqual([[1, 2], [3], [4, 5], [6]]);
+    });
+
+    it('should reject invalid durations', async () => {
+      await expect(from([1]).debounce(-1).toArray()).rejects.toThrow(
+        'Debounce time must be 0 or greater'
+      );
+      await expect(from([1]).bufferTime(10, 0).toArray()).rejects.toThrow(
+        'Buffer size must be greater than 0'
+      );
+    });
+  });
+
+  describe('withSignal', () => {
+    it('should pass values through when not aborted', async () => {
+      const controller = new AbortController();
+
+      const actual = await from([1, 2, 3])
+        .map((value) => value * 2)
+        .withSignal(controller.signal)
+        .toArray();
+
+      expect(actual).toEqual([2, 4, 6]);
+    });
+
+    it('should reject immediately with an already aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      let pulled = false;
+      const createSource = async function* () {
+        pulled = true;
+        yield 1;
+      };
+
+      await expect(
+        from(createSource()).withSignal(controller.signal).toArray()
+      ).rejects.toThrow('Async operator aborted');
+      expect(pulled).toBe(false);
+    });
+
+    it('should reject promptly and return the source iterator when aborted', async () => {
+      const controller = new AbortController();
+      let finalized = false;
+      const createSource = async function* () {
+        try {
+          yield 1;
+          await delay(50);
+          yield 2;
+        } finally {
+          finalized = true;
+        }
+      };
+
+      const visited: number[] = [];
+      const promise = from(createSource())
+        .map((value) => value * 10)
+        .withSignal(controller.signal)
+        .forEach((value) => {
+          visited.push(value);
+          if (value === 10) {
+            setTimeout(() => controller.abort(), 5);
+          }
+        });
+
+      const startedAt = Date.now();
+      await expect(promise).rejects.toThrow('Async operator aborted');
+      expect(Date.now() - startedAt).toBeLessThan(40);
+      expect(visited).toEqual([10]);
+
+      await delay(60);
+      expect(finalized).toBe(true);
+    });
+
+    it('should stop when aborted between values', async () => {
+      const controller = new AbortController();
+      const visited: number[] = [];
+
+      await expect(
+        from([1, 2, 3])
+          .withSignal(controller.signal)
+          .forEach((value) => {
+            visited.push(value);
+            if (value === 2) {
+              controller.abort();
+            }
+          })
+      ).rejects.toThrow('Async operator aborted');
+      expect(visited).toEqual([1, 2]);
+    });
   });
 
   describe('terminal operators', () => {
@@ -752,6 +1930,91 @@ describe('AsyncOperator', () => {
       expect(emptyMin).toBeUndefined();
     });
 
+    it('should support count, sum and average', async () => {
+      const values = [5, 2, 9, 3];
+      const objects = [
+        { name: 'alice', score: 20 },
+        { name: 'bob', score: 10 },
+        { name: 'charlie', score: 30 },
+      ] as const;
+
+      const count = await from(values).count();
+      const evenCount = await from(values).count(
+        async (value) => value % 2 === 0
+      );
+      const sum = await from(values).sum();
+      const scoreSum = await from(objects).sum(async (value) => value.score);
+      const average = await from(values).average();
+      const scoreAverage = await from(objects).average((value) => value.score);
+      const emptySum = await from<number>([]).sum();
+      const emptyAverage = await from<number>([]).average();
+
+      expect(count).toBe(4);
+      expect(evenCount).toBe(1);
+      expect(sum).toBe(19);
+      expect(scoreSum).toBe(60);
+      expect(average).toBe(4.75);
+      expect(scoreAverage).toBe(20);
+      expect(emptySum).toBe(0);
+      expect(emptyAverage).toBeUndefined();
+    });
+
+    it('should reject sum without a selector on non-number values', async () => {
+      await expect(
+        // @ts-expect-error The form without a selector requires numbers
+        from(['a', 'b']).sum()
+      ).rejects.toThrow(new TypeError('Async operator value is not a number'));
+    });
+
+    it('should calculate stats with exact percentiles for small sequences', async () => {
+      const stats = await from([2, 4, 4, 4, 5]).stats(undefined, {
+        percentiles: [0, 0.5, 1],
+      });
+      const scoreStats = await from([{ score: 10 }, { score: 30 }]).stats(
+        async (value) => value.score
+      );
+      const emptyStats = await from<number>([]).stats();
+
+      expect(stats?.count).toBe(5);
+      expect(stats?.mean).toBe(3.8);
+      expect(stats?.variance).toBeCloseTo(0.96);
+      expect(stats?.min).toBe(2);
+      expect(stats?.max).toBe(5);
+      expect(Array.from(stats!.percentiles.entries())).toEqual([
+        [0, 2],
+        [0.5, 4],
+        [1, 5],
+      ]);
+      expect(scoreStats?.mean).toBe(20);
+      expect(scoreStats?.variance).toBe(100);
+      expect(scoreStats?.percentiles.get(0.5)).toBe(20);
+      expect(emptyStats).toBeUndefined();
+    });
+
+    it('should estimate percentiles of long sequences without materializing them', async () => {
+      // Permutation of 0..9999
+      const stats = await range(0, 10000)
+        .map((value) => (value * 7919) % 10000)
+        .stats();
+
+      expect(stats?.count).toBe(10000);
+      expect(stats?.mean).toBeCloseTo(4999.5);
+      expect(stats?.variance).toBeCloseTo((10000 * 10000 - 1) / 12);
+      expect(stats?.min).toBe(0);
+      expect(stats?.max).toBe(9999);
+      expect(Math.abs(stats!.percentiles.get(0.5)! - 4999.5)).toBeLessThan(100);
+      expect(Math.abs(stats!.percentiles.get(0.9)! - 8999.1)).toBeLessThan(100);
+      expect(Math.abs(stats!.percentiles.get(0.99)! - 9899.01)).toBeLessThan(
+        100
+      );
+    });
+
+    it('should reject stats with invalid percentiles', async () => {
+      await expect(
+        from([1, 2, 3]).stats(undefined, { percentiles: [1.5] })
+      ).rejects.toThrow('Percentile must be between 0 and 1');
+    });
+
     it('should support groupBy and countBy', async () => {
       const grouped = await from(['ant', 'ape', 'bear', 'bee']).groupBy(
         (value) => value[0]
@@ -769,5 +2032,183 @@ describe('AsyncOperator', () => {
         ['b', 2],
       ]);
     });
+
+    it('should support toMap with duplicate key handling', async () => {
+      const values = [
+        { id: 1, name: 'alice' },
+        { id: 2, name: 'bob' },
+        { id: 1, name: 'alice-duplicate' },
+      ];
+
+      const unique = await from(values.slice(0, 2)).toMap((value) => value.id);
+      const first = await from(values).toMap(
+        (value) => value.id,
+        async (value) => value.name,
+        { onDuplicate: 'first' }
+      );
+      const last = await from(values).toMap(
+        async (value) => value.id,
+        (value) => value.name,
+        { onDuplicate: 'last' }
+      );
+
+      expect(Array.from(unique.entries())).toEqual([
+        [1, { id: 1, name: 'alice' }],
+        [2, { id: 2, name: 'bob' }],
+      ]);
+      expect(Array.from(first.entries())).toEqual([
+        [1, 'alice'],
+        [2, 'bob'],
+      ]);
+      expect(Array.from(last.entries())).toEqual([
+        [1, 'alice-duplicate'],
+        [2, 'bob'],
+      ]);
+      await expect(from(values).toMap((value) => value.id)).rejects.toThrow(
+        'Async operator found a duplicate key'
+      );
+    });
+
+    it('should support toSet and toObject', async () => {
+      const set = await from([3, 1, 3, 2, 1]).toSet();
+      const object = await from(['ant', 'bee', 'ape']).toObject(
+        (value) => value[0]!,
+        async (value) => value.length
+      );
+      const prototypeObject = await from(['__proto__']).toObject(
+        (value) => value,
+        () => 'value'
+      );
+
+      expect(Array.from(set)).toEqual([3, 1, 2]);
+      expect(object).toEqual({ a: 3, b: 3 });
+      expect(Object.getPrototypeOf(prototypeObject)).toBe(Object.prototype);
+      expect(Object.keys(prototypeObject)).toEqual(['__proto__']);
+
+      const numericKeyObject = await from<readonly [number | string, string]>([
+        [1, 'a'],
+        ['1', 'b'],
+        [1, 'c'],
+      ]).toObject(
+        ([key]) => key,
+        ([, value]) => value
+      );
+      expect(numericKeyObject).toEqual({ 1: 'c' });
+    });
+
+    it('should support toLookup returning empty arrays for missing keys', async () => {
+      const lookup = await from(['ant', 'ape', 'bear']).toLookup(
+        async (value) => value[0]
+      );
+
+      expect(lookup.size).toBe(2);
+      expect(lookup.get('a')).toEqual(['ant', 'ape']);
+      expect(lookup.get('b')).toEqual(['bear']);
+      expect(lookup.get('c')).toEqual([]);
+      expect(lookup.has('c')).toBe(false);
+      expect(Array.from(lookup)).toEqual([
+        ['a', ['ant', 'ape']],
+        ['b', ['bear']],
+      ]);
+    });
+  });
+
+  describe('static factories', () => {
+    afterEach(() => {
+      setClock(undefined);
+    });
+
+    it('should generate sequential integers with range', async () => {
+      expect(await range(3, 4).toArray()).toEqual([3, 4, 5, 6]);
+      expect(await range(0, 0).toArray()).toEqual([]);
+      await expect(range(0, -1).toArray()).rejects.toThrow(
+        'Range count must be 0 or greater'
+      );
+    });
+
+    it('should repeat the value finitely and infinitely', async () => {
+      expect(await repeat('a', 3).toArray()).toEqual(['a', 'a', 'a']);
+      expect(await repeat(1).take(5).toArray()).toEqual([1, 1, 1, 1, 1]);
+    });
+
+    it('should generate values until the predicate returns true', async () => {
+      const actual = await generate(
+        1,
+        async (value) => value * 2,
+        (value) => value > 20
+      ).toArray();
+
+      expect(actual).toEqual([1, 2, 4, 8, 16]);
+    });
+
+    it('should emit sequential numbers periodically with interval', async () => {
+      const clock = createVirtualClock();
+      setClock(clock);
+      const times: number[] = [];
+
+      const promise = interval(10)
+        .take(3)
+        .forEach(() => {
+          times.push(clock.now());
+        });
+      await clock.runAll();
+      await promise;
+
+      expect(times).toEqual([10, 20, 30]);
+    });
+
+    it('should reject interval when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const values: number[] = [];
+
+      await expect(
+        interval(1, controller.signal).forEach((value) => {
+          values.push(value);
+          if (value === 2) {
+            controller.abort();
+          }
+        })
+      ).rejects.toThrow('Async operator aborted');
+      expect(values).toEqual([0, 1, 2]);
+    });
+
+    it('should reject the for await loop over interval when aborted while waiting', async () => {
+      const controller = new AbortController();
+      const ticks: number[] = [];
+
+      await expect(
+        (async () => {
+          for await (const tick of interval(20, controller.signal)) {
+            ticks.push(tick);
+            setTimeout(() => controller.abort(), 5);
+          }
+        })()
+      ).rejects.toThrow('Async operator aborted');
+      expect(ticks).toEqual([0]);
+    });
+
+    it('should invoke the deferFrom factory lazily on each iteration', async () => {
+      let invoked = 0;
+      const operator = deferFrom(async () => {
+        invoked++;
+        return [invoked, invoked * 10];
+      });
+
+      expect(invoked).toBe(0);
+      expect(await operator.toArray()).toEqual([1, 10]);
+      expect(await operator.toArray()).toEqual([2, 20]);
+    });
+
+    it('should support empty and throwError', async () => {
+      expect(await empty<number>().toArray()).toEqual([]);
+      expect(
+        await throwError<number>(new Error('failed'))
+          .catchError(() => [1])
+          .toArray()
+      ).toEqual([1]);
+      await expect(throwError(new Error('failed')).toArray()).rejects.toThrow(
+        'failed'
+      );
+    });
   });
 });
@@ -0,0 +1,168 @@
+/**
+ * Tests for Barrier functionality
+ * These tests verify phase synchronization of participants
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createBarrier } from '../src/index.js';
+import { delay } from '../src/primitives/delay.js';
+
+describe('Barrier', () => {
+  describe('Basic functionality', () => {
+    it('should release all participants when the last one arrives', async () => {
+      const barrier = createBarrier(3);
+      const results: string[] = [];
+
+      const participant = async (id: number) => {
+        await delay(id * 3);
+        results.push(`arrive-${id}`);
+        await barrier.wait();
+        results.push(`leave-${id}`);
+      };
+
+      await Promise.all([participant(0), participant(1), participant(2)]);
+
+      expect(results.slice(0, 3)).toEqual(['arrive-0', 'arrive-1', 'arrive-2']);
+      expect(results.slice(3).sort()).toEqual([
+        'leave-0',
+        'leave-1',
+        'leave-2',
+      ]);
+    });
+
+    it('should track arrived count and phase number', async () => {
+      const barrier = createBarrier(2);
+      expect(barrier.participants).toBe(2);
+      expect(barrier.currentPhase).toBe(0);
+
+      const first = barrier.wait();
+      expect(barrier.arrivedCount).toBe(1);
+
+      const second = barrier.wait();
+      expect(await Promise.all([first, second])).toEqual([0, 0]);
+      expect(barrier.arrivedCount).toBe(0);
+      expect(barrier.currentPhase).toBe(1);
+
+      expect(await Promise.all([barrier.wait(), barrier.wait()])).toEqual([
+        1, 1,
+      ]);
+      expect(barrier.currentPhase).toBe(2);
+    });
+
+    it('should invoke onPhaseComplete before releasing participants', async () => {
+      const events: string[] = [];
+      const barrier = createBarrier(2, {
+        onPhaseComplete: (phase) => events.push(`phase-${phase}`),
+      });
+
+      const participant = async (id: number) => {
+        for (let round = 0; round < 2; round++) {
+          await barrier.wait();
+          events.push(`released-${id}-${round}`);
+        }
+      };
+
+      await Promise.all([participant(0), participant(1)]);
+
+      expect(events[0]).toBe('phase-0');
+      expect(events.indexOf('phase-1')).toBe(3);
+      expect(events.length).toBe(6);
+    });
+
+    it('should support waiter interface', async () => {
+      const barrier = createBarrier(1);
+      const handle = await barrier.waiter.wait();
+      expect(handle.isActive).toBe(false);
+      expect(barrier.currentPhase).toBe(1);
+    });
+
+    it('should reject invalid participants', () => {
+      expect(() => createBarrier(0)).toThrow(
+        'Barrier participants must be greater than 0'
+      );
+    });
+  });
+
+  describe('Broken barrier', () => {
+    it('should break the barrier for everyone when a participant aborts', async () => {
+      const barrier = createBarrier(3);
+      const controller = new AbortController();
+
+      const first = barrier.wait();
+      const second = barrier.wait(controller.signal);
+      await delay(5);
+
+      controller.abort();
+
+      await expect(second).rejects.toThrow('Barrier aborted');
+      await expect(first).rejects.toThrow('Barrier is broken');
+      expect(barrier.isBroken).toBe(true);
+      expect(barrier.arrivedCount).toBe(0);
+
+      await expect(barrier.wait()).rejects.toThrow('Barrier is broken');
+    });
+
+    it('should break the barrier when arriving with an aborted signal', async () => {
+      const barrier = createBarrier(2);
+      const controller = new AbortController();
+      controller.abort();
+
+      const first = barrier.wait();
+      await expect(barrier.wait(controller.signal)).rejects.toThrow(
+        'Barrier aborted'
+      );
+      await expect(first).rejects.toThrow('Barrier is broken');
+      expect(barrier.isBroken).toBe(true);
+    });
+
+    it('should break the barrier when onPhaseComplete throws', async () => {
+      const barrier = createBarrier(2, {
+        onPhaseComplete: () => {
+          throw new Error('Phase failed');
+        },
+      });
+
+      const results = await Promise.allSettled([
+        barrier.wait(),
+        barrier.wait(),
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual([
+        'rejected',
+        'rejected',
+      ]);
+      expect((results[0] as PromiseRejectedResult).reason.message).toBe(
+        'Phase failed'
+      );
+      expect(barrier.isBroken).toBe(true);
+      expect(barrier.currentPhase).toBe(0);
+    });
+
+    it('should be usable again after reset', async () => {
+      const barrier = createBarrier(2);
+      const controller = new AbortController();
+
+      const first = barrier.wait(controller.signal);
+      controller.abort();
+      await expect(first).rejects.toThrow('Barrier aborted');
+      expect(barrier.isBroken).toBe(true);
+
+      barrier.reset();
+      expect(barrier.isBroken).toBe(false);
+
+      expect(await Promise.all([barrier.wait(), barrier.wait()])).toEqual([
+        0, 0,
+      ]);
+    });
+
+    it('should reject waiting participants on reset', async () => {
+      const barrier = createBarrier(2);
+
+      const first = barrier.wait();
+      barrier.reset();
+
+      await expect(first).rejects.toThrow('Barrier is broken');
+      expect(barrier.isBroken).toBe(false);
+    });
+  });
+});
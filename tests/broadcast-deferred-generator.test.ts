@@ -0,0 +1,209 @@
+/**
+ * Tests for BroadcastDeferredGenerator<T> functionality
+ * These tests verify delivering every value to independent subscribers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createBroadcastDeferredGenerator } from '../src/primitives/deferred-generator.js';
+import { delay } from '../src/primitives/delay.js';
+
+const collect = async <T>(generator: AsyncGenerator<T, void, unknown>) => {
+  const results: T[] = [];
+  for await (const value of generator) {
+    results.push(value);
+  }
+  return results;
+};
+
+describe('BroadcastDeferredGenerator', () => {
+  describe('Basic functionality', () => {
+    it('should deliver every value to all subscribers', async () => {
+      const broadcaster = createBroadcastDeferredGenerator<number>();
+
+      const first = collect(broadcaster.subscribe());
+      const second = collect(broadcaster.subscribe());
+      expect(broadcaster.subscriberCount).toBe(2);
+
+      await broadcaster.yield(1);
+      await broadcaster.yield(2);
+      await broadcaster.yield(3);
+      await broadcaster.return();
+
+      expect(await first).toEqual([1, 2, 3]);
+      expect(await second).toEqual([1, 2, 3]);
+      expect(broadcaster.subscriberCount).toBe(0);
+    });
+
+    it('should deliver only values yielded after subscribing', async () => {
+      const broadcaster = createBroadcastDeferredGenerator<number>();
+
+      const first = collect(broadcaster.subscribe());
+      await broadcaster.yield(1);
+
+      const second = collect(broadcaster.subscribe());
+      await broadcaster.yield(2);
+      await broadcaster.return();
+
+      expect(await first).toEqual([1, 2]);
+      expect(await second).toEqual([2]);
+    });
+
+    it('should yield without subscribers', async () => {
+      const broadcaster = createBroadcastDeferredGenerator<number>();
+
+      await broadcaster.yield(1);
+      await broadcaster.return();
+
+      expect(broadcaster.subscriberCount).toBe(0);
+    });
+
+    it('should throw the error to all subscribers', async () => {
+      const broadcaster = createBroadcastDeferredGenerator<number>();
+
+      const first = collect(broadcaster.subscribe());
+      const second = collect(broadcaster.subscribe());
+
+      await broadcaster.yield(1);
+      await broadcaster.throw(new Error('Source failed'));
+
+      await expect(first).rejects.toThrow('Source failed');
+      await expect(second).rejects.toThrow('Source failed');
+    });
+
+    it('should finish subscribers subscribing after completion', async () => {
+      const completed = createBroadcastDeferredGenerator<number>();
+      await completed.return();
+      expect(await collect(completed.subscribe())).toEqual([]);
+
+      const failed = createBroadcastDeferredGenerator<number>();
+      await failed.throw(new Error('Source failed'));
+      await expect(collect(failed.subscribe())).rejects.toThrow(
+        'Source failed'
+      );
+    });
+  });
+
+  describe('Per-subscriber buffering', () => {
+    it('should apply backpressure of the slowest blocking subscriber', async () => {
+      const broadcaster = createBroadcastDeferredGenerator<number>({
+        maxItemReserved: 1,
+      });
+
+      const fast = collect(broadcaster.subscribe());
+      const slow = broadcaster.subscribe();
+
+      await broadcaster.yield(1);
+
+      let yielded = false;
+      const yieldPromise = broadcaster.yield(2).then(() => {
+        yielded = true;
+      });
+      await delay(10);
+      expect(yielded).toBe(false);
+
+      expect((await slow.next()).value).toBe(1);
+      await yieldPromise;
+      expect(yielded).toBe(true);
+
+      const returnPromise = broadcaster.return();
+      expect((await slow.next()).value).toBe(2);
+      await returnPromise;
+      expect((await slow.next()).done).toBe(true);
+      expect(await fast).toEqual([1, 2]);
+    });
+
+    it('should not block the producer with lossy subscribers', async () => {
+      const broadcaster = createBroadcastDeferredGenerator<number>();
+
+      const full = collect(broadcaster.subscribe());
+      const lossy = broadcaster.subscribe({
+        maxItemReserved: 2,
+        overflow: 'drop-oldest',
+      });
+
+      for (let value = 1; value <= 5; value++) {
+        await broadcaster.yield(value);
+      }
+      await broadcaster.return();
+
+      expect(await full).toEqual([1, 2, 3, 4, 5]);
+      expect(await collect(lossy)).toEqual([4, 5]);
+    });
+  });
+
+  describe('Unsubscription', () => {
+    it('should unsubscribe when breaking out of iteration', async () => {
+      const broadcaster = createBroadcastDeferredGenerator<number>();
+      const results: number[] = [];
+
+      const iteration = (async () => {
+        for await (const value of broadcaster.subscribe()) {
+          results.push(value);
+          if (value === 2) {
+            break;
+          }
+        }
+      })();
+
+      await broadcaster.yield(1);
+      await broadcaster.yield(2);
+      await iteration;
+
+      expect(broadcaster.subscriberCount).toBe(0);
+      await broadcaster.yield(3);
+      await broadcaster.return();
+
+      expect(results).toEqual([1, 2]);
+    });
+
+    it('should unsubscribe a subscriber that was never started', async () => {
+      const broadcaster = createBroadcastDeferredGenerator<number>();
+
+      const subscription = broadcaster.subscribe();
+      expect(broadcaster.subscriberCount).toBe(1);
+
+      const result = await subscription.return();
+      expect(result.done).toBe(true);
+      expect(broadcaster.subscriberCount).toBe(0);
+    });
+
+    it('should release the producer blocked by an unsubscribing subscriber', async () => {
+      const broadcaster = createBroadcastDeferredGenerator<number>({
+        maxItemReserved: 1,
+      });
+
+      const subscription = broadcaster.subscribe();
+      await broadcaster.yield(1);
+
+      let yielded = false;
+      const yieldPromise = broadcaster.yield(2).then(() => {
+        yielded = true;
+      });
+      await delay(10);
+      expect(yielded).toBe(false);
+
+      await subscription.return();
+      await yieldPromise;
+      expect(yielded).toBe(true);
+    });
+
+    it('should abort the yield with the producer signal', async () => {
+      const broadcaster = createBroadcastDeferredGenerator<number>({
+        maxItemReserved: 1,
+      });
+      const controller = new AbortController();
+
+      const subscription = broadcaster.subscribe();
+      await broadcaster.yield(1);
+
+      const yieldPromise = broadcaster.yield(2, controller.signal);
+      await delay(5);
+      controller.abort();
+
+      await expect(yieldPromise).rejects.toThrow('Deferred generator aborted');
+      expect(broadcaster.subscriberCount).toBe(1);
+
+      await subscription.return();
+    });
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Tests for Channel functionality
+ * These tests verify unbuffered and buffered channels, and select over channels
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ChannelClosedError, createChannel, select } from '../src/index.js';
+import { delay } from '../src/primitives/delay.js';
+
+describe('Channel', () => {
+  describe('Unbuffered channel', () => {
+    it('should wait for a receiver on send (rendezvous)', async () => {
+      const channel = createChannel<number>();
+      let sent = false;
+
+      const sendPromise = channel.send(1).then(() => {
+        sent = true;
+      });
+      await delay(10);
+      expect(sent).toBe(false);
+      expect(channel.length).toBe(0);
+
+      expect(await channel.receive()).toBe(1);
+      await sendPromise;
+      expect(sent).toBe(true);
+    });
+
+    it('should wait for a sender on receive', async () => {
+      const channel = createChannel<string>();
+
+      const receivePromise = channel.receive();
+      await delay(5);
+      await channel.send('hello');
+
+      expect(await receivePromise).toBe('hello');
+    });
+
+    it('should keep the order of senders', async () => {
+      const channel = createChannel<number>();
+
+      const sends = [channel.send(1), channel.send(2), channel.send(3)];
+      const results = [
+        await channel.receive(),
+        await channel.receive(),
+        await channel.receive(),
+      ];
+      await Promise.all(sends);
+
+      expect(results).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('Buffered channel', () => {
+    it('should buffer values up to the capacity', async () => {
+      const channel = createChannel<number>({ capacity: 2 });
+      expect(channel.capacity).toBe(2);
+
+      await channel.send(1);
+      await channel.send(2);
+      expect(channel.length).toBe(2);
+
+      let sent = false;
+      const sendPromise = channel.send(3).then(() => {
+        sent = true;
+      });
+      await delay(10);
+      expect(sent).toBe(false);
+
+      expect(await channel.receive()).toBe(1);
+      await sendPromise;
+      expect(sent).toBe(true);
+      expect(channel.length).toBe(2);
+
+      expect(await channel.receive()).toBe(2);
+      expect(await channel.receive()).toBe(3);
+    });
+
+    it('should reject invalid capacity', () => {
+      expect(() => createChannel({ capacity: -1 })).toThrow(
+        'Channel capacity must be 0 or greater'
+      );
+    });
+  });
+
+  describe('tryReceive', () => {
+    it('should return undefined when no value is available', () => {
+      const channel = createChannel<number>({ capacity: 1 });
+      expect(channel.tryReceive()).toBeUndefined();
+    });
+
+    it('should receive buffered value and waiting sender value', async () => {
+      const buffered = createChannel<number>({ capacity: 1 });
+      await buffered.send(1);
+      expect(buffered.tryReceive()).toEqual({ value: 1 });
+
+      const unbuffered = createChannel<number | undefined>();
+      const sendPromise = unbuffered.send(undefined);
+      expect(unbuffered.tryReceive()).toEqual({ value: undefined });
+      await sendPromise;
+    });
+  });
+
+  describe('close', () => {
+    it('should drain buffered values after close', async () => {
+      const channel = createChannel<number>({ capacity: 3 });
+      await channel.send(1);
+      await channel.send(2);
+      channel.close();
+
+      expect(channel.isClosed).toBe(true);
+      expect(await channel.receive()).toBe(1);
+      expect(await channel.receive()).toBe(2);
+      await expect(channel.receive()).rejects.toBeInstanceOf(
+        ChannelClosedError
+      );
+    });
+
+    it('should reject send on a closed channel', async () => {
+      const channel = createChannel<number>();
+      channel.close();
+
+      await expect(channel.send(1)).rejects.toBeInstanceOf(ChannelClosedError);
+    });
+
+    it('should reject waiting senders and receivers', async () => {
+      const sendChannel = createChannel<number>();
+      const sendPromise = sendChannel.send(1);
+      sendChannel.close();
+      await expect(sendPromise).rejects.toThrow('Channel is closed');
+
+      const receiveChannel = createChannel<number>();
+      const receivePromise = receiveChannel.receive();
+      receiveChannel.close();
+      await expect(receivePromise).rejects.toThrow('Channel is closed');
+    });
+  });
+
+  describe('Async iteration', () => {
+    it('should iterate until closed and drained', async () => {
+      const channel = createChannel<number>({ capacity: 1 });
+
+      const producer = (async () => {
+        for (let value = 1; value <= 5; value++) {
+          await channel.send(value);
+        }
+        channel.close();
+      })();
+
+      const results: number[] = [];
+      for await (const value of channel) {
+        results.push(value);
+      }
+      await producer;
+
+      expect(results).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should distribute values among multiple consumers', async () => {
+      const channel = createChannel<number>();
+      const consume = async () => {
+        const results: number[] = [];
+        for await (const value of channel) {
+          results.push(value);
+          await delay(1);
+        }
+        return results;
+      };
+
+      const consumers = [consume(), consume()];
+      for (let value = 0; value < 10; value++) {
+        await channel.send(value);
+      }
+      channel.close();
+
+      const [first, second] = await Promise.all(consumers);
+      expect([...first!, ...second!].sort((a, b) => a - b)).toEqual([
+        0, 1, 2, 3, 4, 5, 6, 7, 8, 9,
+      ]);
+    });
+  });
+
+  describe('AbortSignal support', () => {
+    it('should abort send and remove it from the queue', async () => {
+      const channel = createChannel<number>();
+      const controller = new AbortController();
+
+      const sendPromise = channel.send(1, controller.signal);
+      controller.abort();
+      await expect(sendPromise).rejects.toThrow('Channel send aborted');
+
+      expect(channel.tryReceive()).toBeUndefined();
+    });
+
+    it('should abort receive and not consume a later value', async () => {
+      const channel = createChannel<number>({ capacity: 1 });
+      const controller = new AbortController();
+
+      const receivePromise = channel.receive(controller.signal);
+      controller.abort();
+      await expect(receivePromise).rejects.toThrow('Channel receive aborted');
+
+      await channel.send(1);
+      expect(channel.length).toBe(1);
+    });
+  });
+});
+
+describe('select', () => {
+  it('should complete a ready receive immediately', async () => {
+    const first = createChannel<number>({ capacity: 1 });
+    const second = createChannel<string>({ capacity: 1 });
+    await second.send('ready');
+
+    const result = await select([{ receive: first }, { receive: second }]);
+
+    expect(result).toEqual({ index: 1, value: 'ready', closed: false });
+  });
+
+  it('should prefer the first ready case', async () => {
+    const first = createChannel<number>({ capacity: 1 });
+    const second = createChannel<number>({ capacity: 1 });
+    await first.send(1);
+    await second.send(2);
+
+    const result = await select([{ receive: first }, { receive: second }]);
+
+    expect(result.index).toBe(0);
+    expect(second.length).toBe(1);
+  });
+
+  it('should wait for the first ready case and cancel the rest', async () => {
+    const first = createChannel<number>();
+    const second = createChannel<number>();
+
+    const selectPromise = select([{ receive: first }, { receive: second }]);
+    await delay(5);
+
+    await second.send(2);
+    expect(await selectPromise).toEqual({
+      index: 1,
+      value: 2,
+      closed: false,
+    });
+
+    // The cancelled case must not consume a value
+    const sendPromise = first.send(1);
+    expect(first.tryReceive()).toEqual({ value: 1 });
+    await sendPromise;
+  });
+
+  it('should complete a send case', async () => {
+    const output = createChannel<number>();
+    const input = createChannel<number>();
+
+    const selectPromise = select([
+      { send: output, value: 42 },
+      { receive: input },
+    ]);
+    await delay(5);
+
+    expect(await output.receive()).toBe(42);
+    expect(await selectPromise).toEqual({
+      index: 0,
+      value: undefined,
+      closed: false,
+    });
+
+    // The cancelled receive case must not take the value
+    const sendPromise = input.send(1);
+    await delay(5);
+    expect(input.tryReceive()).toEqual({ value: 1 });
+    await sendPromise;
+  });
+
+  it('should complete a receive case on a closed channel', async () => {
+    const data = createChannel<number>();
+    const done = createChannel<void>();
+
+    const selectPromise = select([{ receive: data }, { receive: done }]);
+    done.close();
+
+    expect(await selectPromise).toEqual({
+      index: 1,
+      value: undefined,
+      closed: true,
+    });
+  });
+
+  it('should reject a send case on a closed channel', async () => {
+    const channel = createChannel<number>();
+    channel.close();
+
+    await expect(select([{ send: channel, value: 1 }])).rejects.toBeInstanceOf(
+      ChannelClosedError
+    );
+  });
+
+  it('should abort select and cancel all cases', async () => {
+    const first = createChannel<number>();
+    const second = createChannel<number>();
+    const controller = new AbortController();
+
+    const selectPromise = select(
+      [{ receive: first }, { send: second, value: 1 }],
+      controller.signal
+    );
+    await delay(5);
+    controller.abort();
+
+    await expect(selectPromise).rejects.toThrow('Channel select aborted');
+    expect(first.tryReceive()).toBeUndefined();
+    expect(second.tryReceive()).toBeUndefined();
+  });
+});
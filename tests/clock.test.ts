@@ -0,0 +1,219 @@
+/**
+ * Tests for Clock functionality
+ * These tests verify the virtual clock and the primitives consuming the clock
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  createMutex,
+  createSemaphore,
+  createVirtualClock,
+  defer,
+  delay,
+  getClock,
+  setClock,
+  TimeoutError,
+} from '../src/index.js';
+
+describe('Clock', () => {
+  afterEach(() => {
+    setClock(undefined);
+  });
+
+  describe('createVirtualClock', () => {
+    it('should advance the time only when requested', async () => {
+      const clock = createVirtualClock(1000);
+      expect(clock.now()).toBe(1000);
+
+      await clock.advance(250);
+      expect(clock.now()).toBe(1250);
+    });
+
+    it('should invoke timers in due order', async () => {
+      const clock = createVirtualClock();
+      const results: string[] = [];
+
+      clock.setTimer(() => results.push('30'), 30);
+      clock.setTimer(() => results.push('10'), 10);
+      clock.setTimer(() => results.push('20-1'), 20);
+      clock.setTimer(() => results.push('20-2'), 20);
+
+      await clock.advance(20);
+      expect(results).toEqual(['10', '20-1', '20-2']);
+      expect(clock.pendingCount).toBe(1);
+
+      await clock.advance(10);
+      expect(results).toEqual(['10', '20-1', '20-2', '30']);
+    });
+
+    it('should report the due time to timer callbacks', async () => {
+      const clock = createVirtualClock();
+      const times: number[] = [];
+
+      clock.setTimer(() => times.push(clock.now()), 10);
+      clock.setTimer(() => times.push(clock.now()), 40);
+
+      await clock.advance(100);
+      expect(times).toEqual([10, 40]);
+      expect(clock.now()).toBe(100);
+    });
+
+    it('should cancel released timers', async () => {
+      const clock = createVirtualClock();
+      let invoked = false;
+
+      const timer = clock.setTimer(() => {
+        invoked = true;
+      }, 10);
+      timer.release();
+
+      await clock.advance(20);
+      expect(invoked).toBe(false);
+      expect(clock.pendingCount).toBe(0);
+    });
+
+    it('should run all timers including timers scheduled meanwhile', async () => {
+      const clock = createVirtualClock();
+      const results: number[] = [];
+
+      clock.setTimer(() => {
+        results.push(clock.now());
+        clock.setTimer(() => results.push(clock.now()), 100);
+      }, 50);
+
+      await clock.runAll();
+      expect(results).toEqual([50, 150]);
+      expect(clock.now()).toBe(150);
+    });
+
+    it('should throw when timers do not settle', async () => {
+      const clock = createVirtualClock();
+      const tick = () => {
+        clock.setTimer(tick, 10);
+      };
+      tick();
+
+      await expect(clock.runAll(100)).rejects.toThrow(
+        'Virtual clock timers did not settle'
+      );
+    });
+
+    it('should reject going back', async () => {
+      const clock = createVirtualClock();
+      await expect(clock.advance(-1)).rejects.toThrow(
+        'Virtual clock cannot go back'
+      );
+    });
+  });
+
+  describe('setClock', () => {
+    it('should restore the runtime clock', () => {
+      const runtimeClock = getClock();
+      const clock = createVirtualClock();
+
+      setClock(clock);
+      expect(getClock()).toBe(clock);
+
+      setClock(undefined);
+      expect(getClock()).toBe(runtimeClock);
+    });
+
+    it('should drive delay with the virtual clock', async () => {
+      const clock = createVirtualClock();
+      setClock(clock);
+      let resolved = false;
+
+      const delayPromise = delay(10000).then(() => {
+        resolved = true;
+      });
+
+      await clock.advance(9999);
+      expect(resolved).toBe(false);
+
+      await clock.advance(1);
+      await delayPromise;
+      expect(resolved).toBe(true);
+    });
+
+    it('should cancel the virtual timer when delay is aborted', async () => {
+      const clock = createVirtualClock();
+      setClock(clock);
+      const controller = new AbortController();
+
+      const delayPromise = delay(1000, controller.signal);
+      expect(clock.pendingCount).toBe(1);
+
+      controller.abort();
+      await expect(delayPromise).rejects.toThrow('Delay was aborted');
+      expect(clock.pendingCount).toBe(0);
+    });
+
+    it('should settle continuations of sequential delays in one advance', async () => {
+      const clock = createVirtualClock();
+      setClock(clock);
+      const times: number[] = [];
+
+      const sequence = (async () => {
+        for (let index = 0; index < 3; index++) {
+          await delay(100);
+          times.push(clock.now());
+        }
+      })();
+
+      await clock.advance(300);
+      await sequence;
+      expect(times).toEqual([100, 200, 300]);
+    });
+
+    it('should drive defer with the virtual clock', async () => {
+      const clock = createVirtualClock();
+      setClock(clock);
+      let invoked = false;
+
+      defer(() => {
+        invoked = true;
+      });
+      expect(clock.pendingCount).toBe(1);
+
+      await clock.advance(0);
+      expect(invoked).toBe(true);
+    });
+
+    it('should drive lock timeout with the virtual clock', async () => {
+      const clock = createVirtualClock();
+      setClock(clock);
+      const locker = createMutex();
+
+      const handle = await locker.lock();
+      const lockPromise = locker.lock({ timeoutMs: 5000 });
+
+      await clock.advance(4999);
+      expect(locker.pendingCount).toBe(1);
+
+      const assertion =
+        expect(lockPromise).rejects.toBeInstanceOf(TimeoutError);
+      await clock.advance(1);
+      await assertion;
+      expect(locker.pendingCount).toBe(0);
+
+      handle.release();
+    });
+
+    it('should drive maxConsecutiveCalls yielding with the virtual clock', async () => {
+      const clock = createVirtualClock();
+      setClock(clock);
+      const semaphore = createSemaphore(1, 2);
+      let completed = 0;
+
+      const operations = Array.from({ length: 6 }, async () => {
+        const handle = await semaphore.acquire();
+        completed++;
+        handle.release();
+      });
+
+      await clock.runAll();
+      await Promise.all(operations);
+      expect(completed).toBe(6);
+    });
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Tests for ConditionVariable functionality
+ * These tests verify waiting for shared state changes under a Mutex
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createConditionVariable,
+  createMutex,
+  LockHandle,
+} from '../src/index.js';
+import { delay } from '../src/primitives/delay.js';
+
+describe('ConditionVariable', () => {
+  describe('Basic functionality', () => {
+    it('should release the lock while waiting and re-acquire on notify', async () => {
+      const mutex = createMutex();
+      const condition = createConditionVariable(mutex);
+
+      const handle = await mutex.lock();
+      const waitPromise = condition.wait(handle);
+
+      expect(handle.isActive).toBe(false);
+      expect(mutex.isLocked).toBe(false);
+
+      const notifier = await mutex.lock();
+      condition.notifyOne();
+      await delay(5);
+      // Still waiting for the lock held by the notifier
+      expect(mutex.pendingCount).toBe(1);
+      notifier.release();
+
+      const reacquired = await waitPromise;
+      expect(reacquired.isActive).toBe(true);
+      expect(mutex.isLocked).toBe(true);
+
+      reacquired.release();
+      expect(mutex.isLocked).toBe(false);
+    });
+
+    it('should implement producer and consumer without lost notifications', async () => {
+      const mutex = createMutex();
+      const condition = createConditionVariable(mutex);
+      const items: number[] = [];
+      const consumed: number[] = [];
+
+      const consumer = async () => {
+        let handle = await mutex.lock();
+        try {
+          while (consumed.length < 10) {
+            while (items.length === 0) {
+              handle = await condition.wait(handle);
+            }
+            consumed.push(items.shift()!);
+          }
+        } finally {
+          handle.release();
+        }
+      };
+
+      const producer = async () => {
+        for (let index = 0; index < 10; index++) {
+          const handle = await mutex.lock();
+          try {
+            items.push(index);
+            condition.notifyOne();
+          } finally {
+            handle.release();
+          }
+          if (index % 3 === 0) {
+            await delay(1);
+          }
+        }
+      };
+
+      await Promise.all([consumer(), producer()]);
+
+      expect(consumed).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+      expect(mutex.isLocked).toBe(false);
+    });
+
+    it('should wake up all waiters on notifyAll', async () => {
+      const mutex = createMutex();
+      const condition = createConditionVariable(mutex);
+      let ready = false;
+      const results: number[] = [];
+
+      const waiter = async (id: number) => {
+        let handle = await mutex.lock();
+        try {
+          while (!ready) {
+            handle = await condition.wait(handle);
+          }
+          results.push(id);
+        } finally {
+          handle.release();
+        }
+      };
+
+      const waiters = [waiter(1), waiter(2), waiter(3)];
+      await delay(5);
+      expect(results).toEqual([]);
+
+      const handle = await mutex.lock();
+      ready = true;
+      condition.notifyAll();
+      handle.release();
+
+      await Promise.all(waiters);
+      expect(results.sort()).toEqual([1, 2, 3]);
+      expect(mutex.isLocked).toBe(false);
+    });
+
+    it('should wake up only one waiter on notifyOne', async () => {
+      const mutex = createMutex();
+      const condition = createConditionVariable(mutex);
+      let woken = 0;
+
+      const waiter = async () => {
+        const handle = await mutex.lock();
+        const reacquired = await condition.wait(handle);
+        woken++;
+        reacquired.release();
+      };
+
+      const waiters = [waiter(), waiter()];
+      await delay(5);
+
+      condition.notifyOne();
+      await delay(5);
+      expect(woken).toBe(1);
+
+      condition.notifyOne();
+      await Promise.all(waiters);
+      expect(woken).toBe(2);
+    });
+
+    it('should reject an inactive handle', async () => {
+      const mutex = createMutex();
+      const condition = createConditionVariable(mutex);
+
+      const handle = await mutex.lock();
+      handle.release();
+
+      await expect(condition.wait(handle)).rejects.toThrow(
+        'Lock handle is not active'
+      );
+    });
+  });
+
+  describe('AbortSignal support', () => {
+    it('should keep the lock when the signal is already aborted', async () => {
+      const mutex = createMutex();
+      const condition = createConditionVariable(mutex);
+      const controller = new AbortController();
+      controller.abort();
+
+      const handle = await mutex.lock();
+      await expect(condition.wait(handle, controller.signal)).rejects.toThrow(
+        'Condition variable wait aborted'
+      );
+
+      expect(handle.isActive).toBe(true);
+      expect(mutex.isLocked).toBe(true);
+      handle.release();
+    });
+
+    it('should not hold the lock after aborting while waiting', async () => {
+      const mutex = createMutex();
+      const condition = createConditionVariable(mutex);
+      const controller = new AbortController();
+
+      let handle: LockHandle = await mutex.lock();
+      const waitPromise = condition.wait(handle, controller.signal);
+
+      await delay(5);
+      controller.abort();
+
+      await expect(waitPromise).rejects.toThrow(
+        'Condition variable wait aborted'
+      );
+      expect(mutex.isLocked).toBe(false);
+
+      // Releasing the original handle is harmless
+      handle.release();
+      expect(mutex.isLocked).toBe(false);
+
+      // The aborted waiter does not consume notifications
+      handle = await mutex.lock();
+      const nextWait = condition.wait(handle);
+      condition.notifyOne();
+      const reacquired = await nextWait;
+      expect(reacquired.isActive).toBe(true);
+      reacquired.release();
+    });
+
+    it('should pass the notification on when aborted while re-acquiring', async () => {
+      const mutex = createMutex();
+      const condition = createConditionVariable(mutex);
+      const controller = new AbortController();
+      const results: string[] = [];
+
+      const first = mutex
+        .lock()
+        .then((handle) => condition.wait(handle, controller.signal))
+        .then(
+          (handle) => {
+            results.push('first');
+            handle.release();
+          },
+          () => {
+            results.push('first aborted');
+          }
+        );
+      const second = mutex
+        .lock()
+        .then((handle) => condition.wait(handle))
+        .then((handle) => {
+          results.push('second');
+          handle.release();
+        });
+
+      await delay(5);
+
+      // Notify the first waiter while holding the lock, then abort it
+      const handle = await mutex.lock();
+      condition.notifyOne();
+      await delay(5);
+      controller.abort();
+      await first;
+      handle.release();
+
+      await second;
+      expect(results).toEqual(['first aborted', 'second']);
+      expect(mutex.isLocked).toBe(false);
+    });
+
+    it('should pass the notification on when notified and aborted in the same tick', async () => {
+      const mutex = createMutex();
+      const condition = createConditionVariable(mutex);
+      const controller = new AbortController();
+      const results: string[] = [];
+
+      const first = mutex
+        .lock()
+        .then((handle) => condition.wait(handle, controller.signal))
+        .then(
+          (handle) => {
+            results.push('first');
+            handle.release();
+          },
+          (error: Error) => {
+            results.push(error.message);
+          }
+        );
+      const second = mutex
+        .lock()
+        .then((handle) => condition.wait(handle))
+        .then((handle) => {
+          results.push('second');
+          handle.release();
+        });
+
+      await delay(5);
+
+      // Notify and abort before the first waiter can observe the notification
+      const handle = await mutex.lock();
+      condition.notifyOne();
+      controller.abort();
+      handle.release();
+
+      await first;
+      await second;
+      expect(results).toEqual(['Condition variable wait aborted', 'second']);
+      expect(mutex.isLocked).toBe(false);
+    });
+  });
+});
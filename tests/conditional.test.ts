@@ -728,6 +728,198 @@ describe('createConditional', () => {
   });
 });
 
+describe('triggerAll and waitUntil', () => {
+  it('should resolve all current waiters on triggerAll', async () => {
+    const signal = createConditional();
+    const results: number[] = [];
+
+    const waitPromises = [1, 2, 3].map((id) =>
+      signal.wait().then(() => {
+        results.push(id);
+      })
+    );
+
+    await delay(10);
+    expect(results).toEqual([]);
+
+    signal.triggerAll();
+    await Promise.all(waitPromises);
+    expect(results).toEqual([1, 2, 3]);
+  });
+
+  it('should not latch after triggerAll', async () => {
+    const signal = createConditional();
+    let resolved = false;
+
+    signal.triggerAll();
+
+    const waitPromise = signal.wait().then(() => {
+      resolved = true;
+    });
+    await delay(10);
+    expect(resolved).toBe(false);
+
+    signal.trigger();
+    await waitPromise;
+    expect(resolved).toBe(true);
+  });
+
+  it('should drop the raised state of manually conditional on triggerAll', async () => {
+    const signal = createManuallyConditional();
+    let resolved = false;
+
+    const first = signal.wait();
+    signal.triggerAll();
+    await first;
+
+    signal.raise();
+    signal.triggerAll();
+
+    const waitPromise = signal.wait().then(() => {
+      resolved = true;
+    });
+    await delay(10);
+    expect(resolved).toBe(false);
+
+    signal.trigger();
+    await waitPromise;
+    expect(resolved).toBe(true);
+  });
+
+  it('should resolve waitUntil immediately when predicate already holds', async () => {
+    const signal = createConditional();
+    let checks = 0;
+
+    await signal.waitUntil(() => {
+      checks++;
+      return true;
+    });
+
+    expect(checks).toBe(1);
+  });
+
+  it('should re-check predicate on every trigger', async () => {
+    const signal = createConditional();
+    let value = 0;
+    let resolved = false;
+
+    const waitPromise = signal
+      .waitUntil(() => value >= 3)
+      .then(() => {
+        resolved = true;
+      });
+
+    for (let index = 0; index < 2; index++) {
+      value++;
+      signal.trigger();
+      await delay(5);
+      expect(resolved).toBe(false);
+    }
+
+    value++;
+    signal.trigger();
+    await waitPromise;
+    expect(resolved).toBe(true);
+  });
+
+  it('should resolve only waiters whose predicate holds on triggerAll', async () => {
+    const signal = createConditional();
+    let value = 0;
+    const results: string[] = [];
+
+    const even = signal
+      .waitUntil(() => value > 0 && value % 2 === 0)
+      .then(() => results.push('even'));
+    const odd = signal
+      .waitUntil(() => value % 2 === 1)
+      .then(() => results.push('odd'));
+
+    value = 1;
+    signal.triggerAll();
+    await odd;
+    await delay(5);
+    expect(results).toEqual(['odd']);
+
+    value = 2;
+    signal.triggerAll();
+    await even;
+    expect(results).toEqual(['odd', 'even']);
+  });
+
+  it('should not spin on raised manually conditional while predicate is false', async () => {
+    const signal = createManuallyConditional();
+    let value = 0;
+    let checks = 0;
+
+    signal.raise();
+    const waitPromise = signal.waitUntil(() => {
+      checks++;
+      return value === 1;
+    });
+
+    await delay(10);
+    expect(checks).toBe(1);
+
+    value = 1;
+    signal.raise();
+    await waitPromise;
+    expect(checks).toBe(2);
+  });
+
+  it('should abort waitUntil', async () => {
+    const signal = createConditional();
+    const abortController = new AbortController();
+
+    const waitPromise = signal.waitUntil(() => false, abortController.signal);
+    await delay(5);
+    abortController.abort();
+
+    await expect(waitPromise).rejects.toThrow('Conditional aborted');
+
+    // Aborted waiter must be removed from the queue
+    let resolved = false;
+    const next = signal.wait().then(() => {
+      resolved = true;
+    });
+    signal.trigger();
+    await next;
+    expect(resolved).toBe(true);
+  });
+
+  it('should keep the other waiters when aborted after being triggered', async () => {
+    const signal = createConditional();
+    const abortController = new AbortController();
+
+    const a = signal.wait(abortController.signal);
+    const b = signal.wait();
+    let dResolved = false;
+    const d = signal.wait().then(() => {
+      dResolved = true;
+    });
+
+    signal.trigger();
+    abortController.abort();
+    signal.trigger();
+    signal.trigger();
+
+    // Triggered before the abort, so completes normally
+    await expect(a).resolves.toBeDefined();
+    await b;
+    await d;
+    expect(dResolved).toBe(true);
+  });
+
+  it('should reject waitUntil with already aborted signal', async () => {
+    const signal = createConditional();
+    const abortController = new AbortController();
+    abortController.abort();
+
+    await expect(
+      signal.waitUntil(() => true, abortController.signal)
+    ).rejects.toThrow('Conditional aborted');
+  });
+});
+
 describe('Backward compatibility', () => {
   it('should support deprecated createSignal function', async () => {
     // Should be able to use deprecated name without errors
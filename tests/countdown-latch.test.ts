@@ -0,0 +1,92 @@
+/**
+ * Tests for CountdownLatch functionality
+ * These tests verify waiting until the count reaches zero
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createCountdownLatch } from '../src/index.js';
+import { delay } from '../src/primitives/delay.js';
+
+describe('CountdownLatch', () => {
+  it('should resolve waiters when the count reaches zero', async () => {
+    const latch = createCountdownLatch(3);
+    let resolved = false;
+
+    const waitPromise = latch.wait().then(() => {
+      resolved = true;
+    });
+
+    latch.signal();
+    latch.signal();
+    await delay(5);
+    expect(resolved).toBe(false);
+    expect(latch.currentCount).toBe(1);
+
+    latch.signal();
+    await waitPromise;
+    expect(resolved).toBe(true);
+    expect(latch.currentCount).toBe(0);
+  });
+
+  it('should resolve immediately when already completed', async () => {
+    const latch = createCountdownLatch(0);
+    await latch.wait();
+
+    const latch2 = createCountdownLatch(1);
+    latch2.signal();
+    await latch2.wait();
+    expect(latch2.currentCount).toBe(0);
+  });
+
+  it('should ignore signals after completion', () => {
+    const latch = createCountdownLatch(1);
+    latch.signal();
+    latch.signal();
+    expect(latch.currentCount).toBe(0);
+  });
+
+  it('should wait for all operations to finish', async () => {
+    const latch = createCountdownLatch(5);
+    const finished: number[] = [];
+
+    for (let index = 0; index < 5; index++) {
+      void delay(index * 2).then(() => {
+        finished.push(index);
+        latch.signal();
+      });
+    }
+
+    await latch.wait();
+    expect(finished.length).toBe(5);
+  });
+
+  it('should abort wait', async () => {
+    const latch = createCountdownLatch(1);
+    const controller = new AbortController();
+
+    const waitPromise = latch.wait(controller.signal);
+    controller.abort();
+
+    await expect(waitPromise).rejects.toThrow('Countdown latch aborted');
+    expect(latch.currentCount).toBe(1);
+  });
+
+  it('should support waiter interface', async () => {
+    const latch = createCountdownLatch(1);
+
+    const waitPromise = latch.waiter.wait();
+    latch.signal();
+
+    const handle = await waitPromise;
+    expect(handle.isActive).toBe(false);
+  });
+
+  it('should reject invalid count', () => {
+    expect(() => createCountdownLatch(-1)).toThrow(
+      'Countdown latch count must be 0 or greater'
+    );
+    expect(() => createCountdownLatch(1.5)).toThrow(
+      'Countdown latch count must be 0 or greater'
+    );
+  });
+});
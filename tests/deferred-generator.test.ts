@@ -1047,4 +1047,134 @@ describe('DeferredGenerator', () => {
       expect(throwError!.message).toBe('Deferred generator aborted');
     });
   });
+
+  describe('Overflow strategies', () => {
+    const collect = async <T>(generator: AsyncGenerator<T, void, unknown>) => {
+      const results: T[] = [];
+      for await (const value of generator) {
+        results.push(value);
+      }
+      return results;
+    };
+
+    it('should block by default when the queue is full', async () => {
+      const deferredGen = createDeferredGenerator<number>({
+        maxItemReserved: 2,
+      });
+
+      await deferredGen.yield(1);
+      await deferredGen.yield(2);
+
+      let yielded = false;
+      const yieldPromise = deferredGen.yield(3).then(() => {
+        yielded = true;
+      });
+      await delay(10);
+      expect(yielded).toBe(false);
+
+      const results: number[] = [];
+      const iterationPromise = (async () => {
+        for await (const value of deferredGen.generator) {
+          results.push(value);
+        }
+      })();
+
+      await yieldPromise;
+      await deferredGen.return();
+      await iterationPromise;
+
+      expect(results).toEqual([1, 2, 3]);
+      expect(deferredGen.droppedCount).toBe(0);
+    });
+
+    it('should drop the newest value with drop-newest', async () => {
+      const dropped: number[] = [];
+      const deferredGen = createDeferredGenerator<number>({
+        maxItemReserved: 2,
+        overflow: 'drop-newest',
+        onDropped: (value) => dropped.push(value),
+      });
+
+      for (let value = 1; value <= 5; value++) {
+        await deferredGen.yield(value);
+      }
+      await deferredGen.return();
+
+      expect(await collect(deferredGen.generator)).toEqual([1, 2]);
+      expect(dropped).toEqual([3, 4, 5]);
+      expect(deferredGen.droppedCount).toBe(3);
+    });
+
+    it('should drop the oldest value with drop-oldest', async () => {
+      const dropped: number[] = [];
+      const deferredGen = createDeferredGenerator<number>({
+        maxItemReserved: 2,
+        overflow: 'drop-oldest',
+        onDropped: (value) => dropped.push(value),
+      });
+
+      for (let value = 1; value <= 5; value++) {
+        await deferredGen.yield(value);
+      }
+      await deferredGen.return();
+
+      expect(await collect(deferredGen.generator)).toEqual([4, 5]);
+      expect(dropped).toEqual([1, 2, 3]);
+      expect(deferredGen.droppedCount).toBe(3);
+    });
+
+    it('should reject the yield with error', async () => {
+      const deferredGen = createDeferredGenerator<number>({
+        maxItemReserved: 1,
+        overflow: 'error',
+      });
+
+      await deferredGen.yield(1);
+      await expect(deferredGen.yield(2)).rejects.toThrow(
+        'Deferred generator queue is full'
+      );
+      await deferredGen.return();
+
+      expect(await collect(deferredGen.generator)).toEqual([1]);
+      expect(deferredGen.droppedCount).toBe(0);
+    });
+
+    it('should never drop completion and error', async () => {
+      const deferredGen = createDeferredGenerator<number>({
+        maxItemReserved: 1,
+        overflow: 'drop-newest',
+      });
+
+      await deferredGen.yield(1);
+      await deferredGen.throw(new Error('Stream failed'));
+
+      const results: number[] = [];
+      await expect(
+        (async () => {
+          for await (const value of deferredGen.generator) {
+            results.push(value);
+          }
+        })()
+      ).rejects.toThrow('Stream failed');
+      expect(results).toEqual([1]);
+    });
+
+    it('should keep accepting values while consuming a lossy stream', async () => {
+      const deferredGen = createDeferredGenerator<number>({
+        maxItemReserved: 3,
+        overflow: 'drop-oldest',
+      });
+
+      const iterationPromise = collect(deferredGen.generator);
+
+      for (let value = 0; value < 100; value++) {
+        await deferredGen.yield(value);
+      }
+      await deferredGen.return();
+
+      const results = await iterationPromise;
+      expect(results.length + deferredGen.droppedCount).toBe(100);
+      expect(results[results.length - 1]).toBe(99);
+    });
+  });
 });
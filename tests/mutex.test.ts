@@ -4,7 +4,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { createMutex, createAsyncLock } from '../src/index.js';
+import { createMutex, createAsyncLock, TimeoutError } from '../src/index.js';
 import { delay } from '../src/primitives/delay.js';
 
 describe('Mutex', () => {
@@ -522,6 +522,215 @@ describe('Mutex', () => {
     });
   });
 
+  describe('tryLock', () => {
+    it('should acquire the lock when it is free', () => {
+      const locker = createMutex();
+
+      const handle = locker.tryLock();
+      expect(handle).toBeDefined();
+      expect(handle!.isActive).toBe(true);
+      expect(locker.isLocked).toBe(true);
+
+      handle!.release();
+      expect(locker.isLocked).toBe(false);
+    });
+
+    it('should return undefined when the lock is held', async () => {
+      const locker = createMutex();
+      const handle = await locker.lock();
+
+      expect(locker.tryLock()).toBeUndefined();
+      expect(locker.pendingCount).toBe(0);
+
+      handle.release();
+      const retried = locker.tryLock();
+      expect(retried).toBeDefined();
+      retried!.release();
+    });
+
+    it('should not overtake pending lock requests', async () => {
+      const locker = createMutex();
+      const results: string[] = [];
+
+      const handle = await locker.lock();
+      const waiting = locker.lock().then((waitingHandle) => {
+        results.push('waiting');
+        waitingHandle.release();
+      });
+
+      expect(locker.pendingCount).toBe(1);
+      expect(locker.tryLock()).toBeUndefined();
+
+      handle.release();
+      await waiting;
+
+      expect(results).toEqual(['waiting']);
+      expect(locker.isLocked).toBe(false);
+    });
+  });
+
+  describe('Timeout support', () => {
+    it('should acquire the lock before the timeout elapses', async () => {
+      const locker = createMutex();
+
+      const handle = await locker.lock({ timeoutMs: 50 });
+      expect(handle.isActive).toBe(true);
+      expect(locker.isLocked).toBe(true);
+
+      handle.release();
+      expect(locker.isLocked).toBe(false);
+    });
+
+    it('should reject with TimeoutError when the timeout elapses', async () => {
+      const locker = createMutex();
+      const handle = await locker.lock();
+
+      let caughtError: unknown;
+      try {
+        const timedHandle = await locker.lock({ timeoutMs: 20 });
+        timedHandle.release();
+      } catch (error) {
+        caughtError = error;
+      }
+
+      expect(caughtError).toBeInstanceOf(TimeoutError);
+      expect((caughtError as Error).message).toContain('timed out');
+      expect(locker.pendingCount).toBe(0);
+
+      handle.release();
+      expect(locker.isLocked).toBe(false);
+    });
+
+    it('should wait until released when the timeout is long enough', async () => {
+      const locker = createMutex();
+      const handle = await locker.lock();
+
+      setTimeout(() => handle.release(), 10);
+
+      const timedHandle = await locker.lock({ timeoutMs: 200 });
+      expect(timedHandle.isActive).toBe(true);
+      timedHandle.release();
+    });
+
+    it('should reject with the abort error rather than TimeoutError', async () => {
+      const locker = createMutex();
+      const controller = new AbortController();
+      const handle = await locker.lock();
+
+      setTimeout(() => controller.abort(), 10);
+
+      let caughtError: unknown;
+      try {
+        await locker.lock({ signal: controller.signal, timeoutMs: 200 });
+      } catch (error) {
+        caughtError = error;
+      }
+
+      expect(caughtError).toBeInstanceOf(Error);
+      expect(caughtError).not.toBeInstanceOf(TimeoutError);
+      expect((caughtError as Error).message).toContain('aborted');
+      expect(locker.pendingCount).toBe(0);
+
+      handle.release();
+    });
+
+    it('should let the next waiter acquire after a timed out request', async () => {
+      const locker = createMutex();
+      const handle = await locker.lock();
+
+      const timedOut = locker.lock({ timeoutMs: 10 });
+      const waiting = locker.lock();
+
+      await expect(timedOut).rejects.toBeInstanceOf(TimeoutError);
+      expect(locker.pendingCount).toBe(1);
+
+      handle.release();
+      const nextHandle = await waiting;
+      expect(nextHandle.isActive).toBe(true);
+      nextHandle.release();
+    });
+  });
+
+  describe('Priority support', () => {
+    it('should serve higher priority requests first', async () => {
+      const locker = createMutex();
+      const results: string[] = [];
+
+      const handle = await locker.lock();
+      const request = (name: string, priority: LockPriority) =>
+        locker.lock({ priority }).then((handle) => {
+          results.push(name);
+          handle.release();
+        });
+
+      const tasks = [
+        request('low', 'low'),
+        request('normal1', 'normal'),
+        request('high', 'high'),
+        request('normal2', 'normal'),
+        request('urgent', 10),
+      ];
+
+      expect(locker.pendingCount).toBe(5);
+      expect(locker.getPendingCount('normal')).toBe(2);
+      expect(locker.getPendingCount('high')).toBe(1);
+      expect(locker.getPendingCount(1)).toBe(1);
+      expect(locker.getPendingCount(10)).toBe(1);
+
+      handle.release();
+      await Promise.all(tasks);
+
+      expect(results).toEqual(['urgent', 'high', 'normal1', 'normal2', 'low']);
+    });
+
+    it('should treat requests without priority as normal', async () => {
+      const locker = createMutex();
+      const results: string[] = [];
+
+      const handle = await locker.lock();
+      const tasks = [
+        locker.lock().then((handle) => {
+          results.push('default');
+          handle.release();
+        }),
+        locker.lock({ priority: 'high' }).then((handle) => {
+          results.push('high');
+          handle.release();
+        }),
+      ];
+
+      expect(locker.getPendingCount('normal')).toBe(1);
+
+      handle.release();
+      await Promise.all(tasks);
+
+      expect(results).toEqual(['high', 'default']);
+    });
+
+    it('should raise the priority of waiting requests with aging', async () => {
+      const locker = createMutex({ priorityAgingMs: 10 });
+      const results: string[] = [];
+
+      const handle = await locker.lock();
+      const low = locker.lock({ priority: 'low' }).then((handle) => {
+        results.push('low');
+        handle.release();
+      });
+
+      await delay(50);
+
+      const high = locker.lock({ priority: 'high' }).then((handle) => {
+        results.push('high');
+        handle.release();
+      });
+
+      handle.release();
+      await Promise.all([low, high]);
+
+      expect(results).toEqual(['low', 'high']);
+    });
+  });
+
   describe('Backward compatibility', () => {
     it('should support deprecated createAsyncLock function', async () => {
       // Should be able to use deprecated name without errors
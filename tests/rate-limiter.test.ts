@@ -0,0 +1,220 @@
+/**
+ * Tests for RateLimiter functionality
+ * These tests verify token bucket and sliding window throughput limiting
+ */
+
+import { describe, it, expect, afterEach, beforeEach } from 'vitest';
+import {
+  createRateLimiter,
+  createVirtualClock,
+  setClock,
+  VirtualClock,
+} from '../src/index.js';
+
+describe('RateLimiter', () => {
+  let clock: VirtualClock;
+
+  beforeEach(() => {
+    clock = createVirtualClock();
+    setClock(clock);
+  });
+
+  afterEach(() => {
+    setClock(undefined);
+  });
+
+  describe('Token bucket', () => {
+    it('should allow a burst up to the capacity', () => {
+      const limiter = createRateLimiter({
+        tokensPerInterval: 10,
+        intervalMs: 1000,
+        burst: 3,
+      });
+
+      expect(limiter.availableTokens).toBe(3);
+      expect(limiter.tryAcquire()).toBeDefined();
+      expect(limiter.tryAcquire(2)).toBeDefined();
+      expect(limiter.tryAcquire()).toBeUndefined();
+      expect(limiter.availableTokens).toBe(0);
+    });
+
+    it('should refill tokens over time', async () => {
+      const limiter = createRateLimiter({
+        tokensPerInterval: 10,
+        intervalMs: 1000,
+      });
+
+      expect(limiter.tryAcquire(10)).toBeDefined();
+      expect(limiter.tryAcquire()).toBeUndefined();
+
+      await clock.advance(100);
+      expect(limiter.availableTokens).toBeCloseTo(1);
+      expect(limiter.tryAcquire()).toBeDefined();
+
+      await clock.advance(10000);
+      expect(limiter.availableTokens).toBe(10);
+    });
+
+    it('should wait until tokens are refilled', async () => {
+      const limiter = createRateLimiter({
+        tokensPerInterval: 2,
+        intervalMs: 1000,
+      });
+      const times: number[] = [];
+
+      const operations = Array.from({ length: 5 }, () =>
+        limiter.acquire().then(() => times.push(clock.now()))
+      );
+
+      await clock.runAll();
+      await Promise.all(operations);
+
+      expect(times).toEqual([0, 0, 500, 1000, 1500]);
+      expect(limiter.pendingCount).toBe(0);
+    });
+
+    it('should serve requests in FIFO order without overtaking', async () => {
+      const limiter = createRateLimiter({
+        tokensPerInterval: 4,
+        intervalMs: 1000,
+      });
+      const results: string[] = [];
+
+      expect(limiter.tryAcquire(4)).toBeDefined();
+
+      const heavy = limiter.acquire(3).then(() => results.push('heavy'));
+      const light = limiter.acquire(1).then(() => results.push('light'));
+
+      await clock.advance(250);
+      // A light request must not overtake the heavy head
+      expect(limiter.tryAcquire()).toBeUndefined();
+      expect(results).toEqual([]);
+
+      await clock.runAll();
+      await Promise.all([heavy, light]);
+      expect(results).toEqual(['heavy', 'light']);
+    });
+
+    it('should reject invalid tokens', async () => {
+      const limiter = createRateLimiter({
+        tokensPerInterval: 2,
+        intervalMs: 1000,
+      });
+
+      expect(() => limiter.tryAcquire(0)).toThrow(
+        'Rate limiter tokens must be greater than 0'
+      );
+      await expect(limiter.acquire(3)).rejects.toThrow(
+        'Rate limiter tokens exceed the capacity'
+      );
+    });
+
+    it('should reject invalid options', () => {
+      expect(() =>
+        createRateLimiter({ tokensPerInterval: 0, intervalMs: 1000 })
+      ).toThrow('Rate limiter tokensPerInterval must be greater than 0');
+      expect(() =>
+        createRateLimiter({ tokensPerInterval: 1, intervalMs: 0 })
+      ).toThrow('Rate limiter intervalMs must be greater than 0');
+    });
+  });
+
+  describe('Sliding window', () => {
+    it('should allow at most tokensPerInterval within any window', async () => {
+      const limiter = createRateLimiter({
+        tokensPerInterval: 3,
+        intervalMs: 1000,
+        mode: 'sliding-window',
+      });
+      const times: number[] = [];
+
+      const operations = Array.from({ length: 7 }, () =>
+        limiter.acquire().then(() => times.push(clock.now()))
+      );
+
+      await clock.runAll();
+      await Promise.all(operations);
+
+      expect(times).toEqual([0, 0, 0, 1000, 1000, 1000, 2000]);
+    });
+
+    it('should free tokens as old acquisitions leave the window', async () => {
+      const limiter = createRateLimiter({
+        tokensPerInterval: 2,
+        intervalMs: 1000,
+        mode: 'sliding-window',
+      });
+
+      expect(limiter.tryAcquire()).toBeDefined();
+      await clock.advance(600);
+      expect(limiter.tryAcquire()).toBeDefined();
+      expect(limiter.tryAcquire()).toBeUndefined();
+
+      await clock.advance(400);
+      expect(limiter.availableTokens).toBe(1);
+      expect(limiter.tryAcquire()).toBeDefined();
+      expect(limiter.tryAcquire()).toBeUndefined();
+    });
+  });
+
+  describe('AbortSignal support', () => {
+    it('should abort a pending acquisition and serve the next one', async () => {
+      const limiter = createRateLimiter({
+        tokensPerInterval: 2,
+        intervalMs: 1000,
+      });
+      const controller = new AbortController();
+
+      expect(limiter.tryAcquire(2)).toBeDefined();
+
+      const aborted = limiter.acquire(2, controller.signal);
+      const next = limiter.acquire(1);
+      expect(limiter.pendingCount).toBe(2);
+
+      controller.abort();
+      await expect(aborted).rejects.toThrow(
+        'Rate limiter acquisition was aborted'
+      );
+      expect(limiter.pendingCount).toBe(1);
+
+      await clock.advance(500);
+      await next;
+      expect(limiter.pendingCount).toBe(0);
+    });
+
+    it('should reject with an already aborted signal', async () => {
+      const limiter = createRateLimiter({
+        tokensPerInterval: 2,
+        intervalMs: 1000,
+      });
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(limiter.acquire(controller.signal)).rejects.toThrow(
+        'Rate limiter acquisition was aborted'
+      );
+    });
+  });
+
+  describe('Waitable and LockHandle compatibility', () => {
+    it('should return LockHandle compatible results', async () => {
+      const limiter = createRateLimiter({
+        tokensPerInterval: 1,
+        intervalMs: 1000,
+      });
+
+      {
+        using handle = await limiter.acquire();
+        expect(handle.isActive).toBe(true);
+      }
+
+      // Releasing the handle does not return the consumed token
+      const waiting = limiter.waiter.wait();
+      await clock.advance(1000);
+      const handle = await waiting;
+      expect(handle.isActive).toBe(true);
+      handle.release();
+      expect(handle.isActive).toBe(false);
+    });
+  });
+});
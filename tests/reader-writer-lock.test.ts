@@ -784,6 +784,287 @@ describe('ReaderWriterLock', () => {
     });
   });
 
+  describe('Upgradeable read lock', () => {
+    it('should coexist with plain readers', async () => {
+      const rwLock = createReaderWriterLock();
+
+      const upgradeable = await rwLock.upgradeableReadLock();
+      expect(rwLock.hasUpgradeableReader).toBe(true);
+
+      const reader = await rwLock.readLock();
+      expect(rwLock.currentReaders).toBe(1);
+
+      reader.release();
+      upgradeable.release();
+      expect(rwLock.hasUpgradeableReader).toBe(false);
+    });
+
+    it('should allow at most one upgradeable reader', async () => {
+      const rwLock = createReaderWriterLock();
+      const results: string[] = [];
+
+      const first = await rwLock.upgradeableReadLock();
+      const second = rwLock.upgradeableReadLock().then((handle) => {
+        results.push('second');
+        return handle;
+      });
+
+      await delay(10);
+      expect(rwLock.pendingUpgradeableReadersCount).toBe(1);
+      expect(results).toEqual([]);
+
+      first.release();
+      const secondHandle = await second;
+      expect(results).toEqual(['second']);
+      expect(rwLock.hasUpgradeableReader).toBe(true);
+
+      secondHandle.release();
+      expect(rwLock.hasUpgradeableReader).toBe(false);
+    });
+
+    it('should block writers while held', async () => {
+      const rwLock = createReaderWriterLock();
+      const results: string[] = [];
+
+      const upgradeable = await rwLock.upgradeableReadLock();
+      const writer = rwLock.writeLock().then((handle) => {
+        results.push('writer');
+        handle.release();
+      });
+
+      await delay(10);
+      expect(rwLock.pendingWritersCount).toBe(1);
+      expect(results).toEqual([]);
+
+      upgradeable.release();
+      await writer;
+      expect(results).toEqual(['writer']);
+    });
+
+    it('should upgrade immediately without other readers', async () => {
+      const rwLock = createReaderWriterLock();
+
+      const upgradeable = await rwLock.upgradeableReadLock();
+      const writeHandle = await upgradeable.upgrade();
+      expect(rwLock.hasWriter).toBe(true);
+
+      // Releasing the write lock returns to the upgradeable read lock
+      writeHandle.release();
+      expect(rwLock.hasWriter).toBe(false);
+      expect(rwLock.hasUpgradeableReader).toBe(true);
+
+      upgradeable.release();
+      expect(rwLock.hasUpgradeableReader).toBe(false);
+    });
+
+    it('should wait for plain readers and not let other writers in', async () => {
+      const rwLock = createReaderWriterLock();
+      const results: string[] = [];
+
+      const reader = await rwLock.readLock();
+      const upgradeable = await rwLock.upgradeableReadLock();
+
+      const writer = rwLock.writeLock().then((handle) => {
+        results.push('writer');
+        handle.release();
+      });
+      const upgraded = upgradeable.upgrade().then((handle) => {
+        results.push('upgraded');
+        return handle;
+      });
+
+      await delay(10);
+      expect(results).toEqual([]);
+
+      reader.release();
+      const writeHandle = await upgraded;
+      expect(results).toEqual(['upgraded']);
+      expect(rwLock.hasWriter).toBe(true);
+
+      writeHandle.release();
+      upgradeable.release();
+      await writer;
+      expect(results).toEqual(['upgraded', 'writer']);
+    });
+
+    it('should block new readers while the upgrade is pending', async () => {
+      const rwLock = createReaderWriterLock({ policy: 'read-preferring' });
+      const results: string[] = [];
+
+      const reader = await rwLock.readLock();
+      const upgradeable = await rwLock.upgradeableReadLock();
+      const upgraded = upgradeable.upgrade().then((handle) => {
+        results.push('upgraded');
+        return handle;
+      });
+      const newReader = rwLock.readLock().then((handle) => {
+        results.push('reader');
+        return handle;
+      });
+
+      await delay(10);
+      expect(rwLock.pendingReadersCount).toBe(1);
+
+      reader.release();
+      const writeHandle = await upgraded;
+      await delay(10);
+      expect(results).toEqual(['upgraded']);
+
+      writeHandle.release();
+      const newReaderHandle = await newReader;
+      expect(results).toEqual(['upgraded', 'reader']);
+
+      newReaderHandle.release();
+      upgradeable.release();
+    });
+
+    it('should abort a pending upgrade and keep the upgradeable read lock', async () => {
+      const rwLock = createReaderWriterLock();
+      const controller = new AbortController();
+
+      const reader = await rwLock.readLock();
+      const upgradeable = await rwLock.upgradeableReadLock();
+      const upgraded = upgradeable.upgrade(controller.signal);
+
+      controller.abort();
+      await expect(upgraded).rejects.toThrow('aborted');
+      expect(rwLock.hasUpgradeableReader).toBe(true);
+      expect(rwLock.hasWriter).toBe(false);
+
+      // Readers can enter again after the upgrade was aborted
+      const newReader = await rwLock.readLock();
+      expect(rwLock.currentReaders).toBe(2);
+
+      newReader.release();
+      reader.release();
+      upgradeable.release();
+    });
+
+    it('should reject the pending upgrade when the upgradeable lock is released', async () => {
+      const rwLock = createReaderWriterLock();
+
+      const reader = await rwLock.readLock();
+      const upgradeable = await rwLock.upgradeableReadLock();
+      const upgraded = upgradeable.upgrade();
+
+      upgradeable.release();
+      await expect(upgraded).rejects.toThrow('released');
+
+      reader.release();
+      expect(rwLock.hasUpgradeableReader).toBe(false);
+      expect(rwLock.hasWriter).toBe(false);
+    });
+
+    it('should release the upgraded write lock together', async () => {
+      const rwLock = createReaderWriterLock();
+
+      const upgradeable = await rwLock.upgradeableReadLock();
+      const writeHandle = await upgradeable.upgrade();
+
+      upgradeable.release();
+      expect(rwLock.hasWriter).toBe(false);
+
+      // A later writer must not be released by the stale write handle
+      const writer = await rwLock.writeLock();
+      writeHandle.release();
+      expect(rwLock.hasWriter).toBe(true);
+      writer.release();
+    });
+
+    it('should reject double upgrades and upgrades after release', async () => {
+      const rwLock = createReaderWriterLock();
+
+      const upgradeable = await rwLock.upgradeableReadLock();
+      const writeHandle = await upgradeable.upgrade();
+
+      await expect(upgradeable.upgrade()).rejects.toThrow('already upgraded');
+
+      writeHandle.release();
+      upgradeable.release();
+      await expect(upgradeable.upgrade()).rejects.toThrow('not active');
+    });
+  });
+
+  describe('Write lock downgrade', () => {
+    it('should convert a write lock into a read lock', async () => {
+      const rwLock = createReaderWriterLock();
+
+      const writeHandle = await rwLock.writeLock();
+      const readHandle = writeHandle.downgrade();
+
+      expect(writeHandle.isActive).toBe(false);
+      expect(readHandle.isActive).toBe(true);
+      expect(rwLock.hasWriter).toBe(false);
+      expect(rwLock.currentReaders).toBe(1);
+
+      // Releasing the inactive write handle must not affect the read lock
+      writeHandle.release();
+      expect(rwLock.currentReaders).toBe(1);
+
+      readHandle.release();
+      expect(rwLock.currentReaders).toBe(0);
+    });
+
+    it('should not let another writer in during the downgrade', async () => {
+      const rwLock = createReaderWriterLock();
+      const results: string[] = [];
+
+      const writeHandle = await rwLock.writeLock();
+      const writer = rwLock.writeLock().then((handle) => {
+        results.push('writer');
+        handle.release();
+      });
+
+      const readHandle = writeHandle.downgrade();
+      await delay(10);
+      expect(results).toEqual([]);
+      expect(rwLock.pendingWritersCount).toBe(1);
+
+      readHandle.release();
+      await writer;
+      expect(results).toEqual(['writer']);
+    });
+
+    it('should admit pending readers after the downgrade', async () => {
+      const rwLock = createReaderWriterLock();
+
+      const writeHandle = await rwLock.writeLock();
+      const reader = rwLock.readLock();
+
+      const readHandle = writeHandle.downgrade();
+      const pendingReadHandle = await reader;
+      expect(rwLock.currentReaders).toBe(2);
+
+      pendingReadHandle.release();
+      readHandle.release();
+      expect(rwLock.currentReaders).toBe(0);
+    });
+
+    it('should downgrade an upgraded write lock', async () => {
+      const rwLock = createReaderWriterLock();
+
+      const upgradeable = await rwLock.upgradeableReadLock();
+      const writeHandle = await upgradeable.upgrade();
+      const readHandle = writeHandle.downgrade();
+
+      expect(rwLock.hasWriter).toBe(false);
+      expect(rwLock.hasUpgradeableReader).toBe(true);
+      expect(rwLock.currentReaders).toBe(1);
+
+      readHandle.release();
+      upgradeable.release();
+    });
+
+    it('should reject downgrading an inactive handle', async () => {
+      const rwLock = createReaderWriterLock();
+
+      const writeHandle = await rwLock.writeLock();
+      writeHandle.release();
+
+      expect(() => writeHandle.downgrade()).toThrow('not active');
+    });
+  });
+
   describe('Race condition edge cases', () => {
     it('should handle rapid lock/release cycles', async () => {
       const rwLock = createReaderWriterLock();
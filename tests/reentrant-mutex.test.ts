@@ -0,0 +1,168 @@
+/**
+ * Tests for ReentrantMutex functionality
+ * These tests verify recursive acquisition bound to the logical context
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createReentrantMutex,
+  runOnNewLogicalContext,
+  TimeoutError,
+} from '../src/index.js';
+import { delay } from '../src/primitives/delay.js';
+
+describe('ReentrantMutex', () => {
+  describe('Basic functionality', () => {
+    it('should acquire and release lock', async () => {
+      const locker = createReentrantMutex();
+
+      expect(locker.isLocked).toBe(false);
+      expect(locker.recursionCount).toBe(0);
+
+      const handle = await locker.lock();
+      expect(locker.isLocked).toBe(true);
+      expect(locker.recursionCount).toBe(1);
+
+      handle.release();
+      expect(locker.isLocked).toBe(false);
+      expect(locker.recursionCount).toBe(0);
+    });
+
+    it('should allow recursive acquisition in the same logical context', async () => {
+      const locker = createReentrantMutex();
+
+      const outer = await locker.lock();
+      const inner = await locker.lock();
+      expect(locker.recursionCount).toBe(2);
+
+      inner.release();
+      expect(locker.isLocked).toBe(true);
+      expect(locker.recursionCount).toBe(1);
+
+      outer.release();
+      expect(locker.isLocked).toBe(false);
+      expect(locker.recursionCount).toBe(0);
+    });
+
+    it('should support nested service calls guarding the same resource', async () => {
+      const locker = createReentrantMutex();
+      const results: string[] = [];
+
+      const inner = async () => {
+        const handle = await locker.lock();
+        try {
+          results.push('inner');
+        } finally {
+          handle.release();
+        }
+      };
+      const outer = async () => {
+        const handle = await locker.lock();
+        try {
+          results.push('outer-begin');
+          await inner();
+          results.push('outer-end');
+        } finally {
+          handle.release();
+        }
+      };
+
+      await outer();
+
+      expect(results).toEqual(['outer-begin', 'inner', 'outer-end']);
+      expect(locker.isLocked).toBe(false);
+    });
+
+    it('should ignore duplicate release calls on the same handle', async () => {
+      const locker = createReentrantMutex();
+
+      const outer = await locker.lock();
+      const inner = await locker.lock();
+
+      inner.release();
+      inner.release();
+      expect(locker.recursionCount).toBe(1);
+      expect(locker.isLocked).toBe(true);
+
+      outer.release();
+      expect(locker.isLocked).toBe(false);
+    });
+  });
+
+  describe('Logical context ownership', () => {
+    it('should block other logical contexts until fully released', async () => {
+      const locker = createReentrantMutex();
+      const results: string[] = [];
+
+      const outer = await locker.lock();
+      const inner = await locker.lock();
+
+      const other = runOnNewLogicalContext('other', () =>
+        locker.lock().then((handle) => {
+          results.push('other');
+          handle.release();
+        })
+      );
+
+      await delay(10);
+      expect(locker.pendingCount).toBe(1);
+
+      inner.release();
+      await delay(10);
+      expect(results).toEqual([]);
+
+      outer.release();
+      await other;
+
+      expect(results).toEqual(['other']);
+      expect(locker.isLocked).toBe(false);
+    });
+
+    it('should return undefined from tryLock in other logical contexts', async () => {
+      const locker = createReentrantMutex();
+
+      const handle = locker.tryLock();
+      expect(handle).toBeDefined();
+
+      const reentered = locker.tryLock();
+      expect(reentered).toBeDefined();
+      expect(locker.recursionCount).toBe(2);
+
+      const other = runOnNewLogicalContext('other', () => locker.tryLock());
+      expect(other).toBeUndefined();
+
+      reentered!.release();
+      handle!.release();
+      expect(locker.isLocked).toBe(false);
+    });
+  });
+
+  describe('AbortSignal and timeout support', () => {
+    it('should reject recursive acquisition with an already aborted signal', async () => {
+      const locker = createReentrantMutex();
+      const controller = new AbortController();
+      controller.abort();
+
+      const handle = await locker.lock();
+      await expect(locker.lock(controller.signal)).rejects.toThrow('aborted');
+      expect(locker.recursionCount).toBe(1);
+
+      handle.release();
+      expect(locker.isLocked).toBe(false);
+    });
+
+    it('should time out when owned by another logical context', async () => {
+      const locker = createReentrantMutex();
+      const handle = await locker.lock();
+
+      const other = runOnNewLogicalContext('other', () =>
+        locker.lock({ timeoutMs: 10 })
+      );
+
+      await expect(other).rejects.toBeInstanceOf(TimeoutError);
+      expect(locker.pendingCount).toBe(0);
+
+      handle.release();
+    });
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Tests for retry functionality
+ * These tests verify retrying with backoff, aggregation of failures and aborting
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  createVirtualClock,
+  retry,
+  RetryError,
+  setClock,
+} from '../src/index.js';
+
+describe('retry', () => {
+  afterEach(() => {
+    setClock(undefined);
+    vi.restoreAllMocks();
+  });
+
+  describe('Basic functionality', () => {
+    it('should return the result of the first successful attempt', async () => {
+      const attempts: number[] = [];
+
+      const result = await retry(
+        (attempt) => {
+          attempts.push(attempt);
+          if (attempt < 3) {
+            throw new Error(`Failure ${attempt}`);
+          }
+          return 'success';
+        },
+        { baseMs: 1 }
+      );
+
+      expect(result).toBe('success');
+      expect(attempts).toEqual([1, 2, 3]);
+    });
+
+    it('should support async functions', async () => {
+      let count = 0;
+      const result = await retry(
+        async () => {
+          count++;
+          if (count === 1) {
+            throw new Error('Failure');
+          }
+          return 42;
+        },
+        { baseMs: 1 }
+      );
+
+      expect(result).toBe(42);
+    });
+
+    it('should reject with RetryError containing each failure', async () => {
+      const error = await retry(
+        (attempt) => {
+          throw new Error(`Failure ${attempt}`);
+        },
+        { retries: 2, backoff: 'fixed', baseMs: 1 }
+      ).catch((error: unknown) => error);
+
+      expect(error).toBeInstanceOf(RetryError);
+      expect(error).toBeInstanceOf(AggregateError);
+      const retryError = error as RetryError;
+      expect(retryError.message).toBe('Retry failed after 3 attempts');
+      expect(retryError.errors.map((e: Error) => e.message)).toEqual([
+        'Failure 1',
+        'Failure 2',
+        'Failure 3',
+      ]);
+    });
+
+    it('should not retry when retries is 0', async () => {
+      let count = 0;
+      await expect(
+        retry(
+          () => {
+            count++;
+            throw new Error('Failure');
+          },
+          { retries: 0 }
+        )
+      ).rejects.toBeInstanceOf(RetryError);
+      expect(count).toBe(1);
+    });
+
+    it('should throw the failure as is when shouldRetry returns false', async () => {
+      let count = 0;
+      const fatal = new Error('Fatal');
+
+      await expect(
+        retry(
+          () => {
+            count++;
+            throw count === 1 ? new Error('Transient') : fatal;
+          },
+          {
+            baseMs: 1,
+            shouldRetry: (error) => (error as Error).message !== 'Fatal',
+          }
+        )
+      ).rejects.toBe(fatal);
+      expect(count).toBe(2);
+    });
+
+    it('should reject invalid retries', async () => {
+      await expect(retry(() => 1, { retries: -1 })).rejects.toThrow(
+        new RangeError('Retry count must be 0 or greater')
+      );
+    });
+  });
+
+  describe('Backoff strategies', () => {
+    const collectDelays = async (options: Parameters<typeof retry>[1]) => {
+      const clock = createVirtualClock();
+      setClock(clock);
+      const delays: number[] = [];
+
+      const promise = retry(
+        () => {
+          throw new Error('Failure');
+        },
+        {
+          ...options,
+          onRetry: (_error, _attempt, delayMs) => delays.push(delayMs),
+        }
+      ).catch(() => undefined);
+
+      await clock.runAll();
+      await promise;
+      return { delays, elapsed: clock.now() };
+    };
+
+    it('should wait the fixed time', async () => {
+      const { delays, elapsed } = await collectDelays({
+        retries: 3,
+        backoff: 'fixed',
+        baseMs: 50,
+      });
+
+      expect(delays).toEqual([50, 50, 50]);
+      expect(elapsed).toBe(150);
+    });
+
+    it('should wait exponentially up to maxMs', async () => {
+      const { delays, elapsed } = await collectDelays({
+        retries: 5,
+        backoff: 'exponential',
+        baseMs: 100,
+        maxMs: 1000,
+      });
+
+      expect(delays).toEqual([100, 200, 400, 800, 1000]);
+      expect(elapsed).toBe(2500);
+    });
+
+    it('should wait with decorrelated jitter', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      const { delays } = await collectDelays({
+        retries: 4,
+        backoff: 'decorrelated-jitter',
+        baseMs: 100,
+        maxMs: 1000,
+      });
+
+      // base + 0.5 * (previous * 3 - base)
+      expect(delays).toEqual([200, 350, 575, 912.5]);
+    });
+
+    it('should invoke onRetry with the failure and attempt number', async () => {
+      const calls: [string, number][] = [];
+
+      await retry(
+        (attempt) => {
+          if (attempt < 3) {
+            throw new Error(`Failure ${attempt}`);
+          }
+        },
+        {
+          baseMs: 1,
+          onRetry: (error, attempt) =>
+            calls.push([(error as Error).message, attempt]),
+        }
+      );
+
+      expect(calls).toEqual([
+        ['Failure 1', 1],
+        ['Failure 2', 2],
+      ]);
+    });
+  });
+
+  describe('AbortSignal support', () => {
+    it('should reject immediately with an aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      let count = 0;
+
+      await expect(
+        retry(
+          () => {
+            count++;
+          },
+          { signal: controller.signal }
+        )
+      ).rejects.toThrow('Retry was aborted');
+      expect(count).toBe(0);
+    });
+
+    it('should abort while waiting for the next attempt', async () => {
+      const clock = createVirtualClock();
+      setClock(clock);
+      const controller = new AbortController();
+      let count = 0;
+
+      const promise = retry(
+        () => {
+          count++;
+          throw new Error('Failure');
+        },
+        { baseMs: 1000, signal: controller.signal }
+      );
+      const assertion = expect(promise).rejects.toThrow('Retry was aborted');
+
+      await clock.advance(500);
+      controller.abort();
+      await assertion;
+
+      expect(count).toBe(1);
+      expect(clock.pendingCount).toBe(0);
+    });
+
+    it('should abort a running attempt and pass the signal', async () => {
+      const controller = new AbortController();
+      let receivedSignal: AbortSignal | undefined;
+
+      const promise = retry(
+        (_attempt, signal) => {
+          receivedSignal = signal;
+          // Never completes by itself
+          return new Promise<void>(() => {});
+        },
+        { signal: controller.signal }
+      );
+
+      await Promise.resolve();
+      controller.abort();
+
+      await expect(promise).rejects.toThrow('Retry was aborted');
+      expect(receivedSignal).toBe(controller.signal);
+    });
+  });
+});
@@ -335,6 +335,277 @@ describe('Semaphore', () => {
     });
   });
 
+  describe('Weighted acquisition', () => {
+    it('should acquire and release multiple resources atomically', async () => {
+      const semaphore = createSemaphore(10);
+
+      const handle = await semaphore.acquire(4);
+      expect(semaphore.availableCount).toBe(6);
+
+      handle.release();
+      expect(semaphore.availableCount).toBe(10);
+
+      // Multiple releases should be ignored
+      handle.release();
+      expect(semaphore.availableCount).toBe(10);
+    });
+
+    it('should wait until enough resources are released', async () => {
+      const semaphore = createSemaphore(5);
+      const results: string[] = [];
+
+      const handle1 = await semaphore.acquire(2);
+      const handle2 = await semaphore.acquire(2);
+
+      const heavy = semaphore.acquire(3).then((handle) => {
+        results.push('heavy');
+        return handle;
+      });
+
+      await delay(10);
+      expect(semaphore.pendingCount).toBe(1);
+      expect(results).toEqual([]);
+
+      handle1.release();
+      const heavyHandle = await heavy;
+      expect(results).toEqual(['heavy']);
+      expect(semaphore.availableCount).toBe(0);
+
+      handle2.release();
+      heavyHandle.release();
+      expect(semaphore.availableCount).toBe(5);
+    });
+
+    it('should not let lighter requests overtake a heavy request at the head', async () => {
+      const semaphore = createSemaphore(4);
+      const results: string[] = [];
+
+      const handle = await semaphore.acquire(2);
+
+      const heavy = semaphore.acquire(4).then((heavyHandle) => {
+        results.push('heavy');
+        heavyHandle.release();
+      });
+      const light = semaphore.acquire(1).then((lightHandle) => {
+        results.push('light');
+        lightHandle.release();
+      });
+
+      await delay(10);
+      // Resources are available for the light request, but it must wait in order
+      expect(semaphore.availableCount).toBe(2);
+      expect(semaphore.pendingCount).toBe(2);
+      expect(results).toEqual([]);
+
+      handle.release();
+      await Promise.all([heavy, light]);
+
+      expect(results).toEqual(['heavy', 'light']);
+      expect(semaphore.availableCount).toBe(4);
+    });
+
+    it('should process following requests when the heavy head is aborted', async () => {
+      const semaphore = createSemaphore(4);
+      const controller = new AbortController();
+
+      const handle = await semaphore.acquire(2);
+      const heavy = semaphore.acquire(4, controller.signal);
+      const light = semaphore.acquire(1);
+
+      controller.abort();
+
+      await expect(heavy).rejects.toThrow('aborted');
+      const lightHandle = await light;
+      expect(semaphore.availableCount).toBe(1);
+
+      lightHandle.release();
+      handle.release();
+      expect(semaphore.availableCount).toBe(4);
+    });
+
+    it('should reject invalid weights', async () => {
+      const semaphore = createSemaphore(3);
+
+      await expect(semaphore.acquire(0)).rejects.toThrow(
+        'Semaphore weight must be greater than 0'
+      );
+      await expect(semaphore.acquire(1.5)).rejects.toThrow(
+        'Semaphore weight must be greater than 0'
+      );
+      await expect(semaphore.acquire(4)).rejects.toThrow(
+        'Semaphore weight exceeds the semaphore count'
+      );
+      expect(semaphore.availableCount).toBe(3);
+    });
+  });
+
+  describe('Dynamic capacity', () => {
+    it('should release pending requests when growing', async () => {
+      const semaphore = createSemaphore(1);
+
+      const handle = await semaphore.acquire();
+      const pending = semaphore.acquire();
+
+      await delay(10);
+      expect(semaphore.pendingCount).toBe(1);
+
+      semaphore.resize(2);
+      expect(semaphore.maxCount).toBe(2);
+
+      const pendingHandle = await pending;
+      expect(semaphore.availableCount).toBe(0);
+
+      handle.release();
+      pendingHandle.release();
+      expect(semaphore.availableCount).toBe(2);
+    });
+
+    it('should keep acquired resources valid when shrinking', async () => {
+      const semaphore = createSemaphore(3);
+      const results: string[] = [];
+
+      const handle1 = await semaphore.acquire();
+      const handle2 = await semaphore.acquire();
+      const handle3 = await semaphore.acquire();
+
+      semaphore.resize(1);
+      expect(semaphore.maxCount).toBe(1);
+      expect(semaphore.availableCount).toBe(0);
+
+      const pending = semaphore.acquire().then((handle) => {
+        results.push('acquired');
+        return handle;
+      });
+
+      handle1.release();
+      handle2.release();
+      await delay(10);
+      expect(results).toEqual([]);
+      expect(semaphore.pendingCount).toBe(1);
+
+      handle3.release();
+      const pendingHandle = await pending;
+      expect(results).toEqual(['acquired']);
+
+      pendingHandle.release();
+      expect(semaphore.availableCount).toBe(1);
+    });
+
+    it('should reject pending requests exceeding the new count', async () => {
+      const semaphore = createSemaphore(4);
+
+      const handle = await semaphore.acquire();
+      const heavy = semaphore.acquire(4);
+      const light = semaphore.acquire(2);
+
+      semaphore.resize(2);
+
+      await expect(heavy).rejects.toThrow(
+        'Semaphore weight exceeds the semaphore count'
+      );
+      expect(semaphore.pendingCount).toBe(1);
+
+      handle.release();
+      const lightHandle = await light;
+      lightHandle.release();
+      expect(semaphore.availableCount).toBe(2);
+    });
+
+    it('should throw error for invalid count', () => {
+      const semaphore = createSemaphore(2);
+
+      expect(() => semaphore.resize(0)).toThrow(
+        'Semaphore count must be greater than 0'
+      );
+      expect(semaphore.maxCount).toBe(2);
+    });
+  });
+
+  describe('Priority support', () => {
+    it('should let higher priority requests overtake lower ones', async () => {
+      const semaphore = createSemaphore(1);
+      const results: string[] = [];
+
+      const handle = await semaphore.acquire();
+      const request = (name: string, priority: 'high' | 'low' | number) =>
+        semaphore.acquire({ priority }).then((handle) => {
+          results.push(name);
+          handle.release();
+        });
+
+      const tasks = [
+        request('batch1', 'low'),
+        request('batch2', 'low'),
+        request('interactive', 'high'),
+        request('critical', 5),
+      ];
+
+      expect(semaphore.pendingCount).toBe(4);
+      expect(semaphore.getPendingCount('low')).toBe(2);
+      expect(semaphore.getPendingCount('high')).toBe(1);
+      expect(semaphore.getPendingCount('normal')).toBe(0);
+
+      handle.release();
+      await Promise.all(tasks);
+
+      expect(results).toEqual(['critical', 'interactive', 'batch1', 'batch2']);
+    });
+
+    it('should combine priority and weight', async () => {
+      const semaphore = createSemaphore(4);
+      const results: string[] = [];
+
+      const handle = await semaphore.acquire(4);
+      const heavy = semaphore
+        .acquire({ weight: 3, priority: 'low' })
+        .then((handle) => {
+          results.push('heavy');
+          return handle;
+        });
+      const light = semaphore
+        .acquire({ weight: 2, priority: 'high' })
+        .then((handle) => {
+          results.push('light');
+          return handle;
+        });
+
+      handle.release();
+      const lightHandle = await light;
+      await delay(10);
+      // The heavy request becomes the head and waits for enough resources
+      expect(results).toEqual(['light']);
+
+      lightHandle.release();
+      const heavyHandle = await heavy;
+      expect(results).toEqual(['light', 'heavy']);
+      heavyHandle.release();
+      expect(semaphore.availableCount).toBe(4);
+    });
+
+    it('should raise the priority of waiting requests with aging', async () => {
+      const semaphore = createSemaphore(1, { priorityAgingMs: 10 });
+      const results: string[] = [];
+
+      const handle = await semaphore.acquire();
+      const low = semaphore.acquire({ priority: 'low' }).then((handle) => {
+        results.push('low');
+        handle.release();
+      });
+
+      await delay(50);
+
+      const high = semaphore.acquire({ priority: 'high' }).then((handle) => {
+        results.push('high');
+        handle.release();
+      });
+
+      handle.release();
+      await Promise.all([low, high]);
+
+      expect(results).toEqual(['low', 'high']);
+    });
+  });
+
   describe('Race condition edge cases', () => {
     it('should handle rapid acquire/release cycles', async () => {
       const semaphore = createSemaphore(5);